@@ -1,4 +1,4 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
 import type {
   AnalyticsQuery,
   AnalyticsOverview,
@@ -6,6 +6,7 @@ import type {
   ProviderStats,
   UsageLogsResponse,
   UsageAnalyticsResponse,
+  RequestOptions,
 } from '../types';
 
 /**
@@ -27,10 +28,12 @@ export class AnalyticsAPI {
    * console.log(`Total cost: $${overview.totalCost.toFixed(2)}`);
    * ```
    */
-  async getOverview(query?: AnalyticsQuery): Promise<AnalyticsOverview> {
-    const params = this.transformQuery(query);
-    const response = await this.client.get<Record<string, unknown>>('/v1/analytics/overview', params);
-    return this.transformOverview(response);
+  getOverview(query?: AnalyticsQuery, options?: RequestOptions): APIPromise<AnalyticsOverview> {
+    return APIPromise.defer(() => {
+      const params = this.transformQuery(query);
+      return this.client.get<Record<string, unknown>>('/v1/analytics/overview', params, options)
+        .transform(response => this.transformOverview(response));
+    });
   }
 
   /**
@@ -46,10 +49,12 @@ export class AnalyticsAPI {
    * });
    * ```
    */
-  async getTimeseries(query?: AnalyticsQuery): Promise<TimeseriesPoint[]> {
-    const params = this.transformQuery(query);
-    const response = await this.client.get<Array<Record<string, unknown>>>('/v1/analytics/timeseries', params);
-    return response.map(p => this.transformTimeseriesPoint(p));
+  getTimeseries(query?: AnalyticsQuery, options?: RequestOptions): APIPromise<TimeseriesPoint[]> {
+    return APIPromise.defer(() => {
+      const params = this.transformQuery(query);
+      return this.client.get<Array<Record<string, unknown>>>('/v1/analytics/timeseries', params, options)
+        .transform(response => response.map(p => this.transformTimeseriesPoint(p)));
+    });
   }
 
   /**
@@ -63,9 +68,9 @@ export class AnalyticsAPI {
    * });
    * ```
    */
-  async getProviderStats(): Promise<ProviderStats[]> {
-    const response = await this.client.get<Array<Record<string, unknown>>>('/v1/analytics/providers');
-    return response.map(s => this.transformProviderStats(s));
+  getProviderStats(options?: RequestOptions): APIPromise<ProviderStats[]> {
+    return this.client.get<Array<Record<string, unknown>>>('/v1/analytics/providers', undefined, options)
+      .transform(response => response.map(s => this.transformProviderStats(s)));
   }
 
   /**
@@ -79,9 +84,9 @@ export class AnalyticsAPI {
    * });
    * ```
    */
-  async getUsageLogs(proxyKeyId: string): Promise<UsageLogsResponse> {
-    const response = await this.client.get<Record<string, unknown>>(`/v1/user/proxy-keys/${proxyKeyId}/logs`);
-    return this.transformUsageLogs(response);
+  getUsageLogs(proxyKeyId: string, options?: RequestOptions): APIPromise<UsageLogsResponse> {
+    return this.client.get<Record<string, unknown>>(`/v1/user/proxy-keys/${proxyKeyId}/logs`, undefined, options)
+      .transform(response => this.transformUsageLogs(response));
   }
 
   /**
@@ -96,9 +101,9 @@ export class AnalyticsAPI {
    * });
    * ```
    */
-  async getUsageAnalytics(proxyKeyId: string): Promise<UsageAnalyticsResponse> {
-    const response = await this.client.get<Record<string, unknown>>(`/v1/user/proxy-keys/${proxyKeyId}/usage`);
-    return this.transformUsageAnalytics(response);
+  getUsageAnalytics(proxyKeyId: string, options?: RequestOptions): APIPromise<UsageAnalyticsResponse> {
+    return this.client.get<Record<string, unknown>>(`/v1/user/proxy-keys/${proxyKeyId}/usage`, undefined, options)
+      .transform(response => this.transformUsageAnalytics(response));
   }
 
   // ============================================================================
@@ -109,29 +114,33 @@ export class AnalyticsAPI {
    * Get overview analytics for an organization
    * @experimental Org-scoped analytics not yet available. Will return 404.
    */
-  async getOrgOverview(orgId: string, query?: AnalyticsQuery): Promise<AnalyticsOverview> {
-    const params = this.transformQuery(query);
-    const response = await this.client.get<Record<string, unknown>>(`/v1/organizations/${orgId}/analytics/overview`, params);
-    return this.transformOverview(response);
+  getOrgOverview(orgId: string, query?: AnalyticsQuery, options?: RequestOptions): APIPromise<AnalyticsOverview> {
+    return APIPromise.defer(() => {
+      const params = this.transformQuery(query);
+      return this.client.get<Record<string, unknown>>(`/v1/organizations/${orgId}/analytics/overview`, params, options)
+        .transform(response => this.transformOverview(response));
+    });
   }
 
   /**
    * Get timeseries data for an organization
    * @experimental Org-scoped analytics not yet available. Will return 404.
    */
-  async getOrgTimeseries(orgId: string, query?: AnalyticsQuery): Promise<TimeseriesPoint[]> {
-    const params = this.transformQuery(query);
-    const response = await this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/analytics/timeseries`, params);
-    return response.map(p => this.transformTimeseriesPoint(p));
+  getOrgTimeseries(orgId: string, query?: AnalyticsQuery, options?: RequestOptions): APIPromise<TimeseriesPoint[]> {
+    return APIPromise.defer(() => {
+      const params = this.transformQuery(query);
+      return this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/analytics/timeseries`, params, options)
+        .transform(response => response.map(p => this.transformTimeseriesPoint(p)));
+    });
   }
 
   /**
    * Get provider statistics for an organization
    * @experimental Org-scoped analytics not yet available. Will return 404.
    */
-  async getOrgProviderStats(orgId: string): Promise<ProviderStats[]> {
-    const response = await this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/analytics/providers`);
-    return response.map(s => this.transformProviderStats(s));
+  getOrgProviderStats(orgId: string, options?: RequestOptions): APIPromise<ProviderStats[]> {
+    return this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/analytics/providers`, undefined, options)
+      .transform(response => response.map(s => this.transformProviderStats(s)));
   }
 
   // ============================================================================
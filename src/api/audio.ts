@@ -1,4 +1,7 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise, sleep } from '../client';
+import { deriveIdempotencyKey } from '../retry';
+import type { RequestOptions } from '../types';
+import type { CostCalculator } from '../lib/cost-calculator';
 
 // ============================================================================
 // Types
@@ -132,6 +135,8 @@ export interface TranscriptionResponse {
     start: number;
     end: number;
   }>;
+  /** Cost in USD, attached when `costTracking` is enabled (null if it cannot be calculated) */
+  costUsd?: number | null;
 }
 
 // --- Translation ---
@@ -351,6 +356,27 @@ export interface GetVoicesResponse {
   latency_ms: number;
 }
 
+// --- Lyrics ---
+
+export interface GenerateLyricsRequest {
+  /** "write_full_song" or "edit" */
+  mode: 'write_full_song' | 'edit';
+  /** Theme/style description (max 2000 chars). Omit for a random song. */
+  prompt?: string;
+  /** Existing lyrics to edit/continue (max 3500 chars). Used with mode="edit". */
+  lyrics?: string;
+  /** Song title (preserved in output if provided) */
+  title?: string;
+}
+
+export interface GenerateLyricsResponse {
+  object: string;
+  song_title: string;
+  style_tags: string;
+  lyrics: string;
+  latency_ms: number;
+}
+
 // ============================================================================
 // Audio API
 // ============================================================================
@@ -360,7 +386,10 @@ export interface GetVoicesResponse {
  * Text-to-speech, speech-to-text, voice cloning, and voice design
  */
 export class AudioAPI {
-  constructor(private readonly client: HttpClient) {}
+  constructor(
+    private readonly client: HttpClient,
+    private readonly costs?: CostCalculator
+  ) {}
 
   // ─────────────────────────────────────────────────────────────────────────
   // Text-to-Speech (TTS)
@@ -380,8 +409,8 @@ export class AudioAPI {
    * // Save to file or play
    * ```
    */
-  async speech(request: SpeechRequest): Promise<ArrayBuffer> {
-    return this.client.postBinary('/v1/audio/speech', request);
+  speech(request: SpeechRequest, options?: RequestOptions): APIPromise<ArrayBuffer> {
+    return this.client.postBinary('/v1/audio/speech', request, options);
   }
 
   /**
@@ -398,8 +427,8 @@ export class AudioAPI {
    * console.log('Task ID:', task.task_id);
    * ```
    */
-  async speechAsync(request: AsyncSpeechRequest): Promise<AsyncSpeechResponse> {
-    return this.client.post<AsyncSpeechResponse>('/v1/audio/speech/async', request);
+  speechAsync(request: AsyncSpeechRequest, options?: RequestOptions): APIPromise<AsyncSpeechResponse> {
+    return this.client.post<AsyncSpeechResponse>('/v1/audio/speech/async', request, options);
   }
 
   /**
@@ -413,25 +442,25 @@ export class AudioAPI {
    * }
    * ```
    */
-  async speechAsyncStatus(taskId: string, includeDownloadUrl = true): Promise<AsyncSpeechStatusResponse> {
+  speechAsyncStatus(taskId: string, includeDownloadUrl = true, options?: RequestOptions): APIPromise<AsyncSpeechStatusResponse> {
     const params = new URLSearchParams();
     if (includeDownloadUrl) {
       params.set('include_download_url', 'true');
     }
-    return this.client.get<AsyncSpeechStatusResponse>(`/v1/audio/speech/async/${taskId}?${params.toString()}`);
+    return this.client.get<AsyncSpeechStatusResponse>(`/v1/audio/speech/async/${taskId}?${params.toString()}`, undefined, options);
   }
 
   /**
    * Download completed async speech audio
-   * Returns raw audio bytes
+   * Returns raw audio bytes; the timeout and signal apply until every byte is received
    * 
    * @example
    * ```typescript
-   * const audioBuffer = await mql.audio.speechAsyncDownload('task_123');
+   * const audioBuffer = await mql.audio.speechAsyncDownload('task_123', { signal: controller.signal });
    * ```
    */
-  async speechAsyncDownload(taskId: string): Promise<ArrayBuffer> {
-    return this.client.getBinary(`/v1/audio/speech/async/${taskId}/download`);
+  speechAsyncDownload(taskId: string, options?: RequestOptions): APIPromise<ArrayBuffer> {
+    return this.client.getBinary(`/v1/audio/speech/async/${taskId}/download`, options);
   }
 
   /**
@@ -449,21 +478,21 @@ export class AudioAPI {
    */
   async speechAsyncAndWait(
     request: AsyncSpeechRequest,
-    options?: { pollIntervalMs?: number; maxWaitMs?: number }
+    options?: { pollIntervalMs?: number; maxWaitMs?: number } & RequestOptions
   ): Promise<ArrayBuffer> {
     const pollInterval = options?.pollIntervalMs ?? 3000;
     const maxWait = options?.maxWaitMs ?? 300000; // 5 minutes default
     const startTime = Date.now();
 
-    const task = await this.speechAsync(request);
+    const task = await this.speechAsync(request, options);
     const taskId = task.task_id;
 
-    while (Date.now() - startTime < maxWait) {
-      await this.sleep(pollInterval);
-      const status = await this.speechAsyncStatus(taskId);
+    for (let poll = 1; Date.now() - startTime < maxWait; poll++) {
+      await sleep(pollInterval, options?.signal);
+      const status = await this.speechAsyncStatus(taskId, true, deriveIdempotencyKey(options, `poll-${poll}`));
 
       if (status.status === 'Success') {
-        return this.speechAsyncDownload(taskId);
+        return this.speechAsyncDownload(taskId, deriveIdempotencyKey(options, 'download'));
       }
 
       if (status.status === 'Failed') {
@@ -490,18 +519,27 @@ export class AudioAPI {
    * console.log(result.text);
    * ```
    */
-  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
-    const formData = new FormData();
-    formData.append('file', request.file);
-    formData.append('model', request.model);
-
-    if (request.language) formData.append('language', request.language);
-    if (request.prompt) formData.append('prompt', request.prompt);
-    if (request.response_format) formData.append('response_format', request.response_format);
-    if (request.temperature !== undefined) formData.append('temperature', String(request.temperature));
-    if (request.include) formData.append('include[]', request.include.join(','));
-
-    return this.client.postFormData<TranscriptionResponse>('/v1/audio/transcriptions', formData);
+  transcribe(request: TranscriptionRequest, options?: RequestOptions): APIPromise<TranscriptionResponse> {
+    return APIPromise.defer(() => {
+      const formData = new FormData();
+      formData.append('file', request.file);
+      formData.append('model', request.model);
+
+      if (request.language) formData.append('language', request.language);
+      if (request.prompt) formData.append('prompt', request.prompt);
+      if (request.response_format) formData.append('response_format', request.response_format);
+      if (request.temperature !== undefined) formData.append('temperature', String(request.temperature));
+      if (request.include) formData.append('include[]', request.include.join(','));
+
+      return this.client.postFormData<TranscriptionResponse>('/v1/audio/transcriptions', formData, options)
+        .transform(async (response) => {
+          // Text, SRT and VTT formats come back as plain strings
+          if (this.costs && typeof response === 'object') {
+            response.costUsd = await this.costs.transcriptionCost(response, request.model).catch(() => null);
+          }
+          return response;
+        });
+    });
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -521,16 +559,18 @@ export class AudioAPI {
    * console.log(result.text);
    * ```
    */
-  async translate(request: TranslationRequest): Promise<TranslationResponse> {
-    const formData = new FormData();
-    formData.append('file', request.file);
-    formData.append('model', request.model);
+  translate(request: TranslationRequest, options?: RequestOptions): APIPromise<TranslationResponse> {
+    return APIPromise.defer(() => {
+      const formData = new FormData();
+      formData.append('file', request.file);
+      formData.append('model', request.model);
 
-    if (request.prompt) formData.append('prompt', request.prompt);
-    if (request.response_format) formData.append('response_format', request.response_format);
-    if (request.temperature !== undefined) formData.append('temperature', String(request.temperature));
+      if (request.prompt) formData.append('prompt', request.prompt);
+      if (request.response_format) formData.append('response_format', request.response_format);
+      if (request.temperature !== undefined) formData.append('temperature', String(request.temperature));
 
-    return this.client.postFormData<TranslationResponse>('/v1/audio/translations', formData);
+      return this.client.postFormData<TranslationResponse>('/v1/audio/translations', formData, options);
+    });
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -551,10 +591,12 @@ export class AudioAPI {
    * console.log('File ID:', upload.file_id);
    * ```
    */
-  async uploadVoiceClone(file: Blob | File): Promise<VoiceCloneUploadResponse> {
-    const formData = new FormData();
-    formData.append('file', file);
-    return this.client.postFormData<VoiceCloneUploadResponse>('/v1/audio/voice-clone/upload', formData);
+  uploadVoiceClone(file: Blob | File, options?: RequestOptions): APIPromise<VoiceCloneUploadResponse> {
+    return APIPromise.defer(() => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return this.client.postFormData<VoiceCloneUploadResponse>('/v1/audio/voice-clone/upload', formData, options);
+    });
   }
 
   /**
@@ -571,8 +613,8 @@ export class AudioAPI {
    * console.log('Voice ID:', voice.voice_id);
    * ```
    */
-  async cloneVoice(request: CloneVoiceRequest): Promise<CloneVoiceResponse> {
-    return this.client.post<CloneVoiceResponse>('/v1/audio/voice-clone', request);
+  cloneVoice(request: CloneVoiceRequest, options?: RequestOptions): APIPromise<CloneVoiceResponse> {
+    return this.client.post<CloneVoiceResponse>('/v1/audio/voice-clone', request, options);
   }
 
   /**
@@ -590,14 +632,15 @@ export class AudioAPI {
   async uploadAndCloneVoice(
     file: Blob | File,
     voiceId: string,
-    options?: Partial<Omit<CloneVoiceRequest, 'file_id' | 'voice_id'>>
+    options?: Partial<Omit<CloneVoiceRequest, 'file_id' | 'voice_id'>>,
+    requestOptions?: RequestOptions
   ): Promise<CloneVoiceResponse> {
-    const upload = await this.uploadVoiceClone(file);
+    const upload = await this.uploadVoiceClone(file, deriveIdempotencyKey(requestOptions, 'upload'));
     return this.cloneVoice({
       file_id: upload.file_id,
       voice_id: voiceId,
       ...options,
-    });
+    }, requestOptions);
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -618,10 +661,12 @@ export class AudioAPI {
    * console.log('File ID:', upload.file_id);
    * ```
    */
-  async uploadPromptAudio(file: Blob | File): Promise<PromptAudioUploadResponse> {
-    const formData = new FormData();
-    formData.append('file', file);
-    return this.client.postFormData<PromptAudioUploadResponse>('/v1/audio/prompt-audio/upload', formData);
+  uploadPromptAudio(file: Blob | File, options?: RequestOptions): APIPromise<PromptAudioUploadResponse> {
+    return APIPromise.defer(() => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return this.client.postFormData<PromptAudioUploadResponse>('/v1/audio/prompt-audio/upload', formData, options);
+    });
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -643,8 +688,8 @@ export class AudioAPI {
    * // voice.trial_audio contains hex-encoded preview audio
    * ```
    */
-  async designVoice(request: DesignVoiceRequest): Promise<DesignVoiceResponse> {
-    return this.client.post<DesignVoiceResponse>('/v1/audio/voice-design', request);
+  designVoice(request: DesignVoiceRequest, options?: RequestOptions): APIPromise<DesignVoiceResponse> {
+    return this.client.post<DesignVoiceResponse>('/v1/audio/voice-design', request, options);
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -668,10 +713,10 @@ export class AudioAPI {
    * const systemVoices = await mql.audio.getVoices({ voice_type: 'system' });
    * ```
    */
-  async getVoices(request?: GetVoicesRequest): Promise<GetVoicesResponse> {
+  getVoices(request?: GetVoicesRequest, options?: RequestOptions): APIPromise<GetVoicesResponse> {
     return this.client.post<GetVoicesResponse>('/v1/audio/voices', {
       voice_type: request?.voice_type ?? 'all',
-    });
+    }, options);
   }
 
   /**
@@ -683,10 +728,10 @@ export class AudioAPI {
    * console.log('Voice deleted:', result.voice_id);
    * ```
    */
-  async deleteVoice(voiceId: string): Promise<{ voice_id: string; deleted: boolean }> {
+  deleteVoice(voiceId: string, options?: RequestOptions): APIPromise<{ voice_id: string; deleted: boolean }> {
     return this.client.post<{ voice_id: string; deleted: boolean }>('/v1/audio/voices/delete', {
       voice_id: voiceId,
-    });
+    }, options);
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -708,14 +753,16 @@ export class AudioAPI {
    * // Use in TTS: voice: { id: voice.id }
    * ```
    */
-  async createVoice(request: CreateVoiceRequest): Promise<CreateVoiceResponse> {
-    const formData = new FormData();
-    formData.append('audio_sample', request.audio_sample);
-    formData.append('consent', request.consent);
-    formData.append('name', request.name);
-    if (request.description) formData.append('description', request.description);
-
-    return this.client.postFormData<CreateVoiceResponse>('/v1/audio/voices/create', formData);
+  createVoice(request: CreateVoiceRequest, options?: RequestOptions): APIPromise<CreateVoiceResponse> {
+    return APIPromise.defer(() => {
+      const formData = new FormData();
+      formData.append('audio_sample', request.audio_sample);
+      formData.append('consent', request.consent);
+      formData.append('name', request.name);
+      if (request.description) formData.append('description', request.description);
+
+      return this.client.postFormData<CreateVoiceResponse>('/v1/audio/voices/create', formData, options);
+    });
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -735,12 +782,14 @@ export class AudioAPI {
    * console.log('Consent ID:', consent.id);
    * ```
    */
-  async createVoiceConsent(request: CreateVoiceConsentRequest): Promise<VoiceConsent> {
-    const formData = new FormData();
-    formData.append('recording', request.recording);
-    formData.append('language', request.language);
-    formData.append('name', request.name);
-    return this.client.postFormData<VoiceConsent>('/v1/audio/voice_consents', formData);
+  createVoiceConsent(request: CreateVoiceConsentRequest, options?: RequestOptions): APIPromise<VoiceConsent> {
+    return APIPromise.defer(() => {
+      const formData = new FormData();
+      formData.append('recording', request.recording);
+      formData.append('language', request.language);
+      formData.append('name', request.name);
+      return this.client.postFormData<VoiceConsent>('/v1/audio/voice_consents', formData, options);
+    });
   }
 
   /**
@@ -752,8 +801,8 @@ export class AudioAPI {
    * console.log('Language:', consent.language);
    * ```
    */
-  async getVoiceConsent(consentId: string): Promise<VoiceConsent> {
-    return this.client.get<VoiceConsent>(`/v1/audio/voice_consents/${consentId}`);
+  getVoiceConsent(consentId: string, options?: RequestOptions): APIPromise<VoiceConsent> {
+    return this.client.get<VoiceConsent>(`/v1/audio/voice_consents/${consentId}`, undefined, options);
   }
 
   /**
@@ -764,8 +813,8 @@ export class AudioAPI {
    * const updated = await mql.audio.updateVoiceConsent('vc_abc123', { name: 'Updated Name' });
    * ```
    */
-  async updateVoiceConsent(consentId: string, request: UpdateVoiceConsentRequest): Promise<VoiceConsent> {
-    return this.client.post<VoiceConsent>(`/v1/audio/voice_consents/${consentId}`, request);
+  updateVoiceConsent(consentId: string, request: UpdateVoiceConsentRequest, options?: RequestOptions): APIPromise<VoiceConsent> {
+    return this.client.post<VoiceConsent>(`/v1/audio/voice_consents/${consentId}`, request, options);
   }
 
   /**
@@ -777,8 +826,8 @@ export class AudioAPI {
    * console.log('Deleted:', result.deleted);
    * ```
    */
-  async deleteVoiceConsent(consentId: string): Promise<VoiceConsentDeleteResponse> {
-    return this.client.delete<VoiceConsentDeleteResponse>(`/v1/audio/voice_consents/${consentId}`);
+  deleteVoiceConsent(consentId: string, options?: RequestOptions): APIPromise<VoiceConsentDeleteResponse> {
+    return this.client.delete<VoiceConsentDeleteResponse>(`/v1/audio/voice_consents/${consentId}`, options);
   }
 
   /**
@@ -793,8 +842,8 @@ export class AudioAPI {
    * const page2 = await mql.audio.listVoiceConsents({ after: consents.last_id, limit: 10 });
    * ```
    */
-  async listVoiceConsents(params?: { after?: string; limit?: number }): Promise<VoiceConsentListResponse> {
-    return this.client.get<VoiceConsentListResponse>('/v1/audio/voice_consents', params as Record<string, string | number | boolean | undefined>);
+  listVoiceConsents(params?: { after?: string; limit?: number }, options?: RequestOptions): APIPromise<VoiceConsentListResponse> {
+    return this.client.get<VoiceConsentListResponse>('/v1/audio/voice_consents', params as Record<string, string | number | boolean | undefined>, options);
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -824,30 +873,7 @@ export class AudioAPI {
    * });
    * ```
    */
-  async generateLyrics(request: {
-    /** "write_full_song" or "edit" */
-    mode: 'write_full_song' | 'edit';
-    /** Theme/style description (max 2000 chars). Omit for a random song. */
-    prompt?: string;
-    /** Existing lyrics to edit/continue (max 3500 chars). Used with mode="edit". */
-    lyrics?: string;
-    /** Song title (preserved in output if provided) */
-    title?: string;
-  }): Promise<{
-    object: string;
-    song_title: string;
-    style_tags: string;
-    lyrics: string;
-    latency_ms: number;
-  }> {
-    return this.client.post('/v1/audio/lyrics', request);
-  }
-
-  // ─────────────────────────────────────────────────────────────────────────
-  // Utilities
-  // ─────────────────────────────────────────────────────────────────────────
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  generateLyrics(request: GenerateLyricsRequest, options?: RequestOptions): APIPromise<GenerateLyricsResponse> {
+    return this.client.post<GenerateLyricsResponse>('/v1/audio/lyrics', request, options);
   }
 }
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MQL } from '../index';
+import type { ChatCompletionChunk } from '../types';
+
+/**
+ * Client whose chat stream is served as SSE from the given provider chunks
+ */
+function streamingMQL(chunks: Array<Record<string, unknown>>, headers?: Record<string, string>) {
+  const body = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+  const fetch = vi.fn(async () => new Response(body, { headers: { 'content-type': 'text/event-stream', ...headers } }));
+  return new MQL({ apiKey: 'mql-key', fetch: fetch as typeof globalThis.fetch });
+}
+
+function providerChunk(choices: Array<Record<string, unknown>>, extra?: Record<string, unknown>): Record<string, unknown> {
+  return { id: 'chatcmpl-1', object: 'chat.completion.chunk', created: 1, model: 'gpt-4o', choices, ...extra };
+}
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+describe('ChatAPI.stream', () => {
+  it('attaches routing metadata to the finishing chunk without adding chunks', async () => {
+    const mql = streamingMQL([
+      providerChunk([{ index: 0, delta: { role: 'assistant', content: 'Hel' }, finish_reason: null }]),
+      providerChunk([{ index: 0, delta: { content: 'lo' }, finish_reason: null }]),
+      providerChunk([{ index: 0, delta: {}, finish_reason: 'stop' }]),
+    ], { 'x-mql-provider-used': 'openai', 'x-mql-request-id': 'req_1' });
+
+    const chunks: ChatCompletionChunk[] = [];
+    let text = '';
+    for await (const chunk of mql.chat.stream({ messages })) {
+      chunks.push(chunk);
+      text += chunk.choices[0].delta.content ?? '';
+    }
+
+    expect(text).toBe('Hello');
+    expect(chunks).toHaveLength(3);
+    expect(chunks.map(chunk => chunk.mql?.requestId)).toEqual([undefined, undefined, 'req_1']);
+    expect(chunks[2].mql?.provider).toBe('openai');
+  });
+
+  it('keeps the metadata on the usage chunk that follows the finish', async () => {
+    const mql = streamingMQL([
+      providerChunk([{ index: 0, delta: { content: 'Hi' }, finish_reason: 'stop' }]),
+      providerChunk([], {
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+        metadata: { provider: 'anthropic', request_id: 'req_2' },
+      }),
+    ], { 'x-mql-is-fallback': 'true' });
+    const onFallback = vi.fn();
+
+    const completion = await mql.chat.stream({ messages, streamOptions: { includeUsage: true } })
+      .on('fallback', onFallback)
+      .finalCompletion();
+
+    expect(completion.usage.totalTokens).toBe(4);
+    expect(completion.mql).toMatchObject({ provider: 'anthropic', requestId: 'req_2', isFallback: true });
+    expect(onFallback).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,10 +1,29 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise, MQLAPIError } from '../client';
+import { errorBodyFrom } from '../errors';
+import { runTools, type RunToolsParams, type RunToolsResult } from '../lib/tool-runner';
+import { ChatCompletionAccumulator } from '../lib/stream-accumulator';
+import { ChatCompletionStream } from '../lib/chat-stream';
+import { contentText } from '../lib/content';
+import type { CostCalculator } from '../lib/cost-calculator';
+import { isCacheHit, type ResponseCache } from '../lib/response-cache';
+import { Conversation, type ConversationOptions, type ConversationSnapshot } from '../lib/conversation';
+import { parseCompletion, type ParseParams, type ParsedChatCompletion } from '../lib/structured-output';
+import { raceChunks, raceCompletion, type RaceParams, type RacedChatCompletion } from '../lib/race';
 import type {
   ChatCompletionRequest,
   ChatCompletionResponse,
   ChatCompletionChunk,
+  ChatCompletionDelta,
+  ToolCallDelta,
   StreamOptions,
   ChatMessage,
+  ChatContentPart,
+  ChoiceLogprobs,
+  ResponseFormat,
+  ToolCall,
+  MQLResponseMetadata,
+  RequestOptions,
+  UsageInfo,
 } from '../types';
 
 /**
@@ -12,7 +31,11 @@ import type {
  * OpenAI-compatible chat completions with automatic fallback and content filtering
  */
 export class ChatAPI {
-  constructor(private readonly client: HttpClient) {}
+  constructor(
+    private readonly client: HttpClient,
+    private readonly costs?: CostCalculator,
+    private readonly cache?: ResponseCache
+  ) {}
 
   /**
    * Create a chat completion
@@ -25,12 +48,32 @@ export class ChatAPI {
    *   ]
    * });
    * console.log(response.choices[0].message.content);
+   *
+   * // Gateway routing metadata
+   * console.log(response.mql?.provider, response.mql?.isFallback);
+   * await mql.feedback.submit({ request_id: response.mql!.requestId!, thumbs_up: true });
    * ```
    */
-  async create(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
-    const body = this.transformRequest(request);
-    const response = await this.client.post<Record<string, unknown>>('/v1/chat/completions', body);
-    return this.transformResponse(response);
+  create(request: ChatCompletionRequest, options?: RequestOptions): APIPromise<ChatCompletionResponse> {
+    return APIPromise.defer(() => {
+      const body = this.transformRequest(request);
+      const startedAt = Date.now();
+      // Only deterministic requests are cached unless the request opts in
+      const intercept = this.cache?.interceptor('chat', body, request.temperature === 0, options?.cache);
+      return this.client.post<Record<string, unknown>>('/v1/chat/completions', body, options, intercept)
+        .transform(async (data, response) => {
+          const result = this.transformResponse(data);
+          result.mql = this.extractMetadata(data, response.headers, Date.now() - startedAt);
+          const cacheHit = isCacheHit(response);
+          if (this.costs) {
+            result.costUsd = cacheHit ? 0 : await this.costs.chatCost(result).catch(() => null);
+          }
+          if (intercept) {
+            result.cacheHit = cacheHit;
+          }
+          return result;
+        });
+    });
   }
 
   /**
@@ -40,42 +83,93 @@ export class ChatAPI {
    * ```typescript
    * // Using async iterator
    * for await (const chunk of mql.chat.stream({ messages: [...] })) {
-   *   process.stdout.write(chunk.choices[0].delta.content || '');
+   *   process.stdout.write(chunk.choices[0]?.delta.content || '');
    * }
    * 
-   * // Using callbacks
-   * await mql.chat.stream(
-   *   { messages: [...] },
-   *   {
-   *     onChunk: (chunk) => process.stdout.write(chunk.choices[0].delta.content || ''),
-   *     onComplete: (fullText) => console.log('\nDone:', fullText),
-   *   }
-   * );
+   * // Using events
+   * const text = await mql.chat.stream({ messages: [...] })
+   *   .on('content', (delta) => process.stdout.write(delta))
+   *   .on('finish', (reason) => console.log('\nFinished:', reason))
+   *   .finalText();
    * ```
+   *
+   * Chunks are yielded as they arrive. The chunk carrying the finish reason
+   * (and the usage chunk after it, if any) has the gateway routing metadata
+   * in `chunk.mql`.
+   * The returned stream can be aborted with `abort()`, split with `tee()`, or
+   * converted for re-serving with `toReadableStream()` or `toNodeReadable()`.
+   */
+  stream(request: ChatCompletionRequest, options?: StreamOptions): ChatCompletionStream {
+    return new ChatCompletionStream(signal => this.streamChunks(request, { ...options, signal }), options?.signal);
+  }
+
+  /**
+   * Request a streaming completion and yield its chunks
    */
-  async *stream(
+  private async *streamChunks(
     request: ChatCompletionRequest,
     options?: StreamOptions
   ): AsyncGenerator<ChatCompletionChunk, string, unknown> {
     const body = this.transformRequest({ ...request, stream: true });
+    const startedAt = Date.now();
+    let headers: Headers | undefined;
     let fullContent = '';
 
+    // Routing metadata goes on the chunk that finishes the stream and on any
+    // usage chunk after it, so no chunk has to be held back
+    let finished = false;
+    // Gateways may send the metadata before the trailing usage chunk
+    let metadataBody: Record<string, unknown> | undefined;
+
     try {
-      for await (const data of this.client.stream('/v1/chat/completions', body, undefined, options?.signal)) {
+      const events = this.client.stream('/v1/chat/completions', body, {
+        ...options,
+        onResponse: (response) => { headers = response.headers; },
+      });
+
+      for await (const event of events) {
+        // Keepalive and other named events carry no chunk
+        if (event.event !== 'message') {
+          continue;
+        }
+
+        let raw: Record<string, unknown>;
         try {
-          const chunk = JSON.parse(data) as ChatCompletionChunk;
-          
-          // Accumulate content for onComplete callback
-          const deltaContent = chunk.choices[0]?.delta?.content;
-          if (deltaContent) {
-            fullContent += deltaContent;
+          raw = JSON.parse(event.data) as Record<string, unknown>;
+        } catch (err) {
+          const error = new MQLAPIError('Malformed stream chunk', 502, 'invalid_stream_chunk', { data: event.data });
+          (error as { cause?: unknown }).cause = err;
+          if (!options?.onParseError) {
+            throw error;
           }
+          options.onParseError(error, event.data);
+          continue;
+        }
+
+        // Providers may report a mid-stream failure as a chunk with an `error` body
+        const errorBody = !raw.choices ? errorBodyFrom(raw) : undefined;
+        if (errorBody) {
+          throw MQLAPIError.fromResponse(errorBody, typeof raw.status === 'number' ? raw.status : 500);
+        }
+
+        if (raw.metadata) {
+          metadataBody = raw;
+        }
+        const chunk = this.transformChunk(raw);
 
-          options?.onChunk?.(chunk);
-          yield chunk;
-        } catch {
-          // Skip invalid JSON chunks (like [DONE])
+        // Accumulate content for onComplete callback
+        const deltaContent = chunk.choices?.[0]?.delta?.content;
+        if (deltaContent) {
+          fullContent += deltaContent;
         }
+
+        finished ||= chunk.choices.some(choice => choice.finishReason);
+        if (finished) {
+          chunk.mql = this.extractMetadata(metadataBody ?? raw, headers, Date.now() - startedAt);
+        }
+
+        options?.onChunk?.(chunk);
+        yield chunk;
       }
 
       options?.onComplete?.(fullContent);
@@ -97,29 +191,42 @@ export class ChatAPI {
    * 
    * @example
    * ```typescript
-   * const { response, text } = await mql.chat.streamToCompletion({
-   *   messages: [{ role: 'user', content: 'Tell me a story' }]
+   * const { completion, text, usage } = await mql.chat.streamToCompletion({
+   *   messages: [{ role: 'user', content: 'Tell me a story' }],
+   *   streamOptions: { includeUsage: true },
    * }, {
-   *   onChunk: (chunk) => process.stdout.write(chunk.choices[0].delta.content || '')
+   *   onChunk: (chunk) => process.stdout.write(chunk.choices[0]?.delta.content || '')
    * });
+   * console.log(completion.choices[0].finishReason, usage?.totalTokens, completion.mql?.provider);
    * ```
+   *
+   * `usage` is null unless the provider reported it (see `streamOptions.includeUsage`).
    */
   async streamToCompletion(
     request: ChatCompletionRequest,
     options?: StreamOptions
-  ): Promise<{ response: ChatCompletionChunk[]; text: string }> {
+  ): Promise<{
+    response: ChatCompletionChunk[];
+    text: string;
+    usage: UsageInfo | null;
+    completion: ChatCompletionResponse;
+  }> {
     const chunks: ChatCompletionChunk[] = [];
-    let text = '';
+    const accumulator = new ChatCompletionAccumulator();
+    let usage: UsageInfo | null = null;
 
     for await (const chunk of this.stream(request, options)) {
       chunks.push(chunk);
-      const content = chunk.choices[0]?.delta?.content;
-      if (content) {
-        text += content;
-      }
+      accumulator.add(chunk);
+      if (chunk.usage) usage = chunk.usage;
     }
 
-    return { response: chunks, text };
+    const completion = accumulator.toResponse();
+    // Without usage the token-based cost would be a misleading zero
+    if (this.costs && (usage || completion.mql?.costUsd != null)) {
+      completion.costUsd = await this.costs.chatCost(completion).catch(() => null);
+    }
+    return { response: chunks, text: contentText(completion.choices[0]?.message.content ?? null), usage, completion };
   }
 
   /**
@@ -133,9 +240,178 @@ export class ChatAPI {
    * console.log(reply); // "4"
    * ```
    */
-  async complete(messages: ChatMessage[], options?: Omit<ChatCompletionRequest, 'messages'>): Promise<string> {
-    const response = await this.create({ ...options, messages });
-    return response.choices[0]?.message?.content || '';
+  async complete(
+    messages: ChatMessage[],
+    options?: Omit<ChatCompletionRequest, 'messages'>,
+    requestOptions?: RequestOptions
+  ): Promise<string> {
+    const response = await this.create({ ...options, messages }, requestOptions);
+    return contentText(response.choices[0]?.message?.content ?? null);
+  }
+
+  /**
+   * Run the tool-calling loop: the model is called with the given tools, requested
+   * calls are executed (in parallel by default) and their results sent back until
+   * the model answers without tool calls. Handler errors are reported to the model.
+   *
+   * @example
+   * ```typescript
+   * const { message, messages } = await mql.chat.runTools({
+   *   messages: [{ role: 'user', content: 'What is the weather in Paris?' }],
+   *   tools: {
+   *     get_weather: {
+   *       description: 'Current weather for a city',
+   *       schema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+   *       handler: async ({ city }: { city: string }) => fetchWeather(city),
+   *     },
+   *   },
+   *   maxIterations: 5,
+   *   onEvent: (event) => console.log(event.type),
+   * });
+   * console.log(message.content);
+   * ```
+   */
+  runTools(params: RunToolsParams, options?: RequestOptions): Promise<RunToolsResult> {
+    return runTools((request, requestOptions) => this.create(request, requestOptions), params, options);
+  }
+
+  /**
+   * Request structured output: the schema is sent as a `json_schema` response
+   * format and the reply is parsed and validated before it is returned. Rejected
+   * replies are sent back with the validation error up to `maxValidationRetries`
+   * times, after which `MQLStructuredOutputError` is thrown.
+   *
+   * @example
+   * ```typescript
+   * interface Person { name: string; age: number }
+   *
+   * const { parsed } = await mql.chat.parse<Person>({
+   *   messages: [{ role: 'user', content: 'Ada Lovelace was born in 1815 and died at 36.' }],
+   *   name: 'person',
+   *   schema: {
+   *     type: 'object',
+   *     properties: { name: { type: 'string' }, age: { type: 'integer' } },
+   *     required: ['name', 'age'],
+   *     additionalProperties: false,
+   *   },
+   *   maxValidationRetries: 2,
+   * });
+   *
+   * // With Zod: keep the JSON schema for the model, validate with Zod
+   * const { parsed: person } = await mql.chat.parse({ messages, schema, validate: Person.parse });
+   * ```
+   */
+  parse<T = unknown>(params: ParseParams<T>, options?: RequestOptions): Promise<ParsedChatCompletion<T>> {
+    return parseCompletion((request, requestOptions) => this.create(request, requestOptions), params, options);
+  }
+
+  /**
+   * Send the request to several models and return the first successful
+   * response; the slower requests are cancelled. With `hedgeDelayMs`, each
+   * backup model only starts if no answer arrived within the delay, trimming
+   * tail latency without doubling every request. `race` reports the winner.
+   *
+   * @example
+   * ```typescript
+   * const response = await mql.chat.race({
+   *   models: ['gpt-4o-mini', 'claude-3-5-haiku-latest'],
+   *   hedgeDelayMs: 1500,
+   *   messages,
+   * });
+   * console.log(response.race.model, response.race.latencyMs);
+   * ```
+   *
+   * Cancelled requests may still be billed by the provider for tokens
+   * generated before the cancellation reached it.
+   */
+  race(params: RaceParams, options?: RequestOptions): Promise<RacedChatCompletion> {
+    return raceCompletion((request, requestOptions) => this.create(request, requestOptions), params, options);
+  }
+
+  /**
+   * Streaming variant of `race`: the first model to send a chunk wins and the
+   * other streams are aborted
+   *
+   * @example
+   * ```typescript
+   * const stream = mql.chat.raceStream({
+   *   models: ['gpt-4o', 'claude-3-5-sonnet-latest'],
+   *   hedgeDelayMs: 800,
+   *   messages,
+   *   onWinner: (outcome) => console.log('streaming from', outcome.model),
+   * });
+   * for await (const chunk of stream) {
+   *   process.stdout.write(chunk.choices[0]?.delta.content ?? '');
+   * }
+   * ```
+   */
+  raceStream(params: RaceParams, options?: StreamOptions): ChatCompletionStream {
+    return new ChatCompletionStream(
+      signal => raceChunks((request, streamOptions) => this.stream(request, streamOptions), params, { ...options, signal }),
+      options?.signal
+    );
+  }
+
+  /**
+   * Start a conversation that tracks history, appends replies and trims older
+   * turns to fit the model's context window. Pass a snapshot from
+   * `conversation.toJSON()` to resume a stored conversation.
+   *
+   * @example
+   * ```typescript
+   * const conversation = mql.chat.conversation({
+   *   model: 'gpt-4o',
+   *   system: 'You are a concise assistant.',
+   *   contextTokens: 128000,
+   * });
+   * await conversation.send('Hi, I am Ada.');
+   * const reply = await conversation.send('What is my name?');
+   * ```
+   */
+  conversation(options?: ConversationOptions, snapshot?: ConversationSnapshot): Conversation {
+    return new Conversation(this, options, snapshot);
+  }
+
+  /**
+   * Build the routing metadata block from gateway headers and the MQL `metadata` body field
+   */
+  private extractMetadata(
+    body: Record<string, unknown>,
+    headers: Headers | undefined,
+    elapsedMs: number
+  ): MQLResponseMetadata {
+    const metadata = (body.metadata || {}) as {
+      provider_id?: string;
+      provider?: string;
+      model?: string;
+      is_fallback?: boolean;
+      request_id?: string;
+      latency_ms?: number;
+      cost_usd?: number;
+      cost?: number;
+    };
+    const header = (name: string): string | null => headers?.get(name) ?? null;
+    const toNumber = (value: string | null): number | null => {
+      if (value === null || value === '') return null;
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    };
+
+    const isFallbackHeader = header('x-mql-is-fallback');
+
+    return {
+      provider: header('x-mql-provider-used')
+        ?? metadata.provider
+        ?? (typeof body.provider === 'string' ? body.provider : null),
+      providerId: metadata.provider_id ?? null,
+      model: metadata.model ?? (typeof body.model === 'string' ? body.model : null),
+      isFallback: isFallbackHeader !== null
+        ? isFallbackHeader.toLowerCase() === 'true'
+        : metadata.is_fallback ?? false,
+      requestId: header('x-mql-request-id') ?? metadata.request_id ?? null,
+      latencyMs: metadata.latency_ms ?? toNumber(header('x-mql-latency-ms')) ?? elapsedMs,
+      costUsd: metadata.cost_usd ?? metadata.cost ?? toNumber(header('x-mql-cost-usd')),
+    };
   }
 
   /**
@@ -144,8 +420,11 @@ export class ChatAPI {
   private transformRequest(request: ChatCompletionRequest): Record<string, unknown> {
     return {
       model: request.model,
-      messages: request.messages,
+      messages: request.messages.map(message => this.transformMessage(message)),
       stream: request.stream,
+      stream_options: request.stream && request.streamOptions
+        ? { include_usage: request.streamOptions.includeUsage }
+        : undefined,
       max_tokens: request.maxTokens,
       temperature: request.temperature,
       top_p: request.topP,
@@ -158,7 +437,151 @@ export class ChatAPI {
       function_call: request.functionCall,
       tools: request.tools,
       tool_choice: request.toolChoice,
+      parallel_tool_calls: request.parallelToolCalls,
+      response_format: this.transformResponseFormat(request.responseFormat),
+      seed: request.seed,
+      logprobs: request.logprobs,
+      top_logprobs: request.topLogprobs,
+    };
+  }
+
+  /**
+   * Transform a response format from SDK format to API format
+   */
+  private transformResponseFormat(format?: ResponseFormat): Record<string, unknown> | undefined {
+    if (format?.type !== 'json_schema') {
+      return format;
+    }
+    const { name, description, schema, strict } = format.jsonSchema;
+    return { type: 'json_schema', json_schema: { name, description, schema, strict } };
+  }
+
+  /**
+   * Transform token log probabilities from API format to SDK format
+   */
+  private transformLogprobs(logprobs: Record<string, unknown> | null): ChoiceLogprobs | null {
+    if (!logprobs) return null;
+    const content = logprobs.content as Array<Record<string, unknown>> | null | undefined;
+    const token = (entry: Record<string, unknown>) => ({
+      token: entry.token as string,
+      logprob: entry.logprob as number,
+      bytes: (entry.bytes ?? null) as number[] | null,
+    });
+    return {
+      content: content
+        ? content.map(entry => ({
+          ...token(entry),
+          topLogprobs: ((entry.top_logprobs ?? entry.topLogprobs ?? []) as Array<Record<string, unknown>>).map(token),
+        }))
+        : null,
+    };
+  }
+
+  /**
+   * Transform a message from SDK format to API format
+   */
+  private transformMessage(message: ChatMessage): Record<string, unknown> {
+    return {
+      role: message.role,
+      content: Array.isArray(message.content)
+        ? message.content.map(part => this.transformContentPart(part))
+        : message.content,
+      name: message.name,
+      function_call: message.functionCall,
+      tool_calls: message.toolCalls,
+      tool_call_id: message.toolCallId,
+    };
+  }
+
+  /**
+   * Transform a content part from SDK format to API format
+   */
+  private transformContentPart(part: ChatContentPart): Record<string, unknown> {
+    switch (part.type) {
+      case 'image_url':
+        return { type: 'image_url', image_url: part.imageUrl };
+      case 'input_audio':
+        return { type: 'input_audio', input_audio: part.inputAudio };
+      case 'file':
+        return {
+          type: 'file',
+          file: { file_id: part.file.fileId, filename: part.file.filename, file_data: part.file.fileData },
+        };
+      default:
+        return { ...part };
+    }
+  }
+
+  /**
+   * Transform a response message from API format to SDK format
+   */
+  private transformResponseMessage(message: Record<string, unknown>): ChatMessage {
+    const result: ChatMessage = {
+      role: message.role as ChatMessage['role'],
+      content: (message.content ?? null) as ChatMessage['content'],
+    };
+    if (message.name) result.name = message.name as string;
+    const functionCall = message.function_call ?? message.functionCall;
+    if (functionCall) result.functionCall = functionCall as ChatMessage['functionCall'];
+    const toolCalls = message.tool_calls ?? message.toolCalls;
+    if (toolCalls) result.toolCalls = toolCalls as ToolCall[];
+    const toolCallId = message.tool_call_id ?? message.toolCallId;
+    if (toolCallId) result.toolCallId = toolCallId as string;
+    return result;
+  }
+
+  /**
+   * Transform a stream chunk from API format to SDK format
+   */
+  private transformChunk(chunk: Record<string, unknown>): ChatCompletionChunk {
+    const resp = chunk as {
+      id: string;
+      created: number;
+      model: string;
+      choices?: Array<{
+        index: number;
+        delta?: Record<string, unknown>;
+        finish_reason?: string | null;
+      }>;
+      usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+      } | null;
+    };
+
+    const result: ChatCompletionChunk = {
+      id: resp.id,
+      object: 'chat.completion.chunk',
+      created: resp.created,
+      model: resp.model,
+      choices: (resp.choices ?? []).map(choice => {
+        const raw = choice.delta ?? {};
+        const delta: ChatCompletionDelta = {};
+        if (raw.role) delta.role = raw.role as ChatCompletionDelta['role'];
+        if (raw.content !== undefined) delta.content = raw.content as string | null;
+        const functionCall = raw.function_call ?? raw.functionCall;
+        if (functionCall) delta.functionCall = functionCall as ChatCompletionDelta['functionCall'];
+        const toolCalls = raw.tool_calls ?? raw.toolCalls;
+        if (toolCalls) delta.toolCalls = toolCalls as ToolCallDelta[];
+
+        return {
+          index: choice.index ?? 0,
+          delta,
+          finishReason: (choice.finish_reason ?? null) as ChatCompletionChunk['choices'][0]['finishReason'],
+        };
+      }),
     };
+
+    if (resp.usage) {
+      result.usage = {
+        promptTokens: resp.usage.prompt_tokens,
+        completionTokens: resp.usage.completion_tokens,
+        totalTokens: resp.usage.total_tokens,
+      };
+    }
+
+    return result;
   }
 
   /**
@@ -173,7 +596,7 @@ export class ChatAPI {
         id: string;
         object: 'chat.completion';
         model: string;
-        message: ChatMessage;
+        message: Record<string, unknown>;
         metadata: {
           provider_id?: string;
           tokens_used?: number;
@@ -192,7 +615,7 @@ export class ChatAPI {
         model: resp.model,
         choices: [{
           index: 0,
-          message: resp.message,
+          message: this.transformResponseMessage(resp.message),
           finishReason: (resp.metadata.finish_reason || 'stop') as ChatCompletionResponse['choices'][0]['finishReason'],
         }],
         usage: {
@@ -211,8 +634,9 @@ export class ChatAPI {
       model: string;
       choices: Array<{
         index: number;
-        message: ChatMessage;
+        message: Record<string, unknown>;
         finish_reason: string | null;
+        logprobs?: Record<string, unknown> | null;
       }>;
       usage: {
         prompt_tokens: number;
@@ -226,11 +650,15 @@ export class ChatAPI {
       object: resp.object,
       created: resp.created,
       model: resp.model,
-      choices: resp.choices.map(choice => ({
-        index: choice.index,
-        message: choice.message,
-        finishReason: choice.finish_reason as ChatCompletionResponse['choices'][0]['finishReason'],
-      })),
+      choices: resp.choices.map(choice => {
+        const result: ChatCompletionResponse['choices'][0] = {
+          index: choice.index,
+          message: this.transformResponseMessage(choice.message),
+          finishReason: choice.finish_reason as ChatCompletionResponse['choices'][0]['finishReason'],
+        };
+        if (choice.logprobs !== undefined) result.logprobs = this.transformLogprobs(choice.logprobs);
+        return result;
+      }),
       usage: {
         promptTokens: resp.usage.prompt_tokens,
         completionTokens: resp.usage.completion_tokens,
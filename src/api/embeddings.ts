@@ -1,4 +1,7 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
+import type { RequestOptions } from '../types';
+import type { CostCalculator } from '../lib/cost-calculator';
+import { isCacheHit, type ResponseCache } from '../lib/response-cache';
 
 // ============================================================================
 // Types
@@ -42,6 +45,10 @@ export interface EmbeddingResponse {
   model: string;
   /** Token usage stats */
   usage: EmbeddingUsage;
+  /** Cost in USD, attached when `costTracking` is enabled (null if the model's pricing is unknown) */
+  costUsd?: number | null;
+  /** Whether the response was served from the client cache (set when the request was cacheable) */
+  cacheHit?: boolean;
 }
 
 // ============================================================================
@@ -53,7 +60,11 @@ export interface EmbeddingResponse {
  * Create embeddings for text input (useful for RAG, semantic search, clustering)
  */
 export class EmbeddingsAPI {
-  constructor(private readonly client: HttpClient) {}
+  constructor(
+    private readonly client: HttpClient,
+    private readonly costs?: CostCalculator,
+    private readonly cache?: ResponseCache
+  ) {}
 
   /**
    * Create embeddings for text input
@@ -81,8 +92,21 @@ export class EmbeddingsAPI {
    * });
    * ```
    */
-  async create(request: EmbeddingRequest): Promise<EmbeddingResponse> {
-    return this.client.post<EmbeddingResponse>('/v1/embeddings', request);
+  create(request: EmbeddingRequest, options?: RequestOptions): APIPromise<EmbeddingResponse> {
+    return APIPromise.defer(() => {
+      const intercept = this.cache?.interceptor('embeddings', request, true, options?.cache);
+      return this.client.post<EmbeddingResponse>('/v1/embeddings', request, options, intercept)
+        .transform(async (response, raw) => {
+          const cacheHit = isCacheHit(raw);
+          if (this.costs) {
+            response.costUsd = cacheHit ? 0 : await this.costs.embeddingCost(response).catch(() => null);
+          }
+          if (intercept) {
+            response.cacheHit = cacheHit;
+          }
+          return response;
+        });
+    });
   }
 
   /**
@@ -99,10 +123,11 @@ export class EmbeddingsAPI {
    * console.log('Reduced embedding length:', response.data[0].embedding.length);
    * ```
    */
-  async createWithDimensions(
-    request: Omit<EmbeddingRequest, 'dimensions'> & { dimensions: number }
-  ): Promise<EmbeddingResponse> {
-    return this.create(request);
+  createWithDimensions(
+    request: Omit<EmbeddingRequest, 'dimensions'> & { dimensions: number },
+    options?: RequestOptions
+  ): APIPromise<EmbeddingResponse> {
+    return this.create(request, options);
   }
 
   /**
@@ -117,10 +142,10 @@ export class EmbeddingsAPI {
    * // response.data[0].embedding is now a base64 string
    * ```
    */
-  async createBase64(request: Omit<EmbeddingRequest, 'encoding_format'>): Promise<EmbeddingResponse> {
+  createBase64(request: Omit<EmbeddingRequest, 'encoding_format'>, options?: RequestOptions): APIPromise<EmbeddingResponse> {
     return this.create({
       ...request,
       encoding_format: 'base64',
-    });
+    }, options);
   }
 }
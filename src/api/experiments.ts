@@ -1,4 +1,5 @@
-import type { HttpClient } from '../client';
+import type { HttpClient, APIPromise } from '../client';
+import type { RequestOptions } from '../types';
 
 // ============================================================================
 // Experiment Types
@@ -27,7 +28,7 @@ export interface ExperimentVariant {
   name: string;
   is_control: boolean;
   weight: number;
-  config: Record<string, any>;
+  config: Record<string, unknown>;
   created_at: string;
   updated_at: string;
 }
@@ -54,13 +55,13 @@ export interface CreateVariantRequest {
   name: string;
   is_control?: boolean;
   weight: number;
-  config: Record<string, any>;
+  config: Record<string, unknown>;
 }
 
 export interface UpdateVariantRequest {
   name?: string;
   weight?: number;
-  config?: Record<string, any>;
+  config?: Record<string, unknown>;
 }
 
 export interface VariantAnalytics {
@@ -106,8 +107,8 @@ export class ExperimentsAPI {
    * });
    * ```
    */
-  async create(data: CreateExperimentRequest): Promise<Experiment> {
-    return this.httpClient.post<Experiment>('/v1/experiments', data);
+  create(data: CreateExperimentRequest, options?: RequestOptions): APIPromise<Experiment> {
+    return this.httpClient.post<Experiment>('/v1/experiments', data, options);
   }
 
   /**
@@ -118,8 +119,8 @@ export class ExperimentsAPI {
    * const experiments = await mql.experiments.list();
    * ```
    */
-  async list(): Promise<Experiment[]> {
-    return this.httpClient.get<Experiment[]>('/v1/experiments');
+  list(options?: RequestOptions): APIPromise<Experiment[]> {
+    return this.httpClient.get<Experiment[]>('/v1/experiments', undefined, options);
   }
 
   /**
@@ -131,8 +132,8 @@ export class ExperimentsAPI {
    * console.log(experiment.variants);
    * ```
    */
-  async get(id: string): Promise<ExperimentWithVariants> {
-    return this.httpClient.get<ExperimentWithVariants>(`/v1/experiments/${id}`);
+  get(id: string, options?: RequestOptions): APIPromise<ExperimentWithVariants> {
+    return this.httpClient.get<ExperimentWithVariants>(`/v1/experiments/${id}`, undefined, options);
   }
 
   /**
@@ -145,8 +146,8 @@ export class ExperimentsAPI {
    * });
    * ```
    */
-  async update(id: string, data: UpdateExperimentRequest): Promise<Experiment> {
-    return this.httpClient.patch<Experiment>(`/v1/experiments/${id}`, data);
+  update(id: string, data: UpdateExperimentRequest, options?: RequestOptions): APIPromise<Experiment> {
+    return this.httpClient.patch<Experiment>(`/v1/experiments/${id}`, data, options);
   }
 
   /**
@@ -157,8 +158,8 @@ export class ExperimentsAPI {
    * await mql.experiments.delete('exp_123');
    * ```
    */
-  async delete(id: string): Promise<{ message: string }> {
-    return this.httpClient.delete(`/v1/experiments/${id}`);
+  delete(id: string, options?: RequestOptions): APIPromise<{ message: string }> {
+    return this.httpClient.delete(`/v1/experiments/${id}`, options);
   }
 
   /**
@@ -169,8 +170,8 @@ export class ExperimentsAPI {
    * await mql.experiments.start('exp_123');
    * ```
    */
-  async start(id: string): Promise<Experiment> {
-    return this.httpClient.post<Experiment>(`/v1/experiments/${id}/start`, {});
+  start(id: string, options?: RequestOptions): APIPromise<Experiment> {
+    return this.httpClient.post<Experiment>(`/v1/experiments/${id}/start`, {}, options);
   }
 
   /**
@@ -181,8 +182,8 @@ export class ExperimentsAPI {
    * await mql.experiments.pause('exp_123');
    * ```
    */
-  async pause(id: string): Promise<Experiment> {
-    return this.httpClient.post<Experiment>(`/v1/experiments/${id}/pause`, {});
+  pause(id: string, options?: RequestOptions): APIPromise<Experiment> {
+    return this.httpClient.post<Experiment>(`/v1/experiments/${id}/pause`, {}, options);
   }
 
   /**
@@ -193,8 +194,8 @@ export class ExperimentsAPI {
    * await mql.experiments.complete('exp_123');
    * ```
    */
-  async complete(id: string): Promise<Experiment> {
-    return this.httpClient.post<Experiment>(`/v1/experiments/${id}/complete`, {});
+  complete(id: string, options?: RequestOptions): APIPromise<Experiment> {
+    return this.httpClient.post<Experiment>(`/v1/experiments/${id}/complete`, {}, options);
   }
 
   /**
@@ -209,8 +210,8 @@ export class ExperimentsAPI {
    * });
    * ```
    */
-  async createVariant(experimentId: string, data: CreateVariantRequest): Promise<ExperimentVariant> {
-    return this.httpClient.post<ExperimentVariant>(`/v1/experiments/${experimentId}/variants`, data);
+  createVariant(experimentId: string, data: CreateVariantRequest, options?: RequestOptions): APIPromise<ExperimentVariant> {
+    return this.httpClient.post<ExperimentVariant>(`/v1/experiments/${experimentId}/variants`, data, options);
   }
 
   /**
@@ -223,14 +224,15 @@ export class ExperimentsAPI {
    * });
    * ```
    */
-  async updateVariant(
+  updateVariant(
     experimentId: string,
     variantId: string,
-    data: UpdateVariantRequest
-  ): Promise<ExperimentVariant> {
+    data: UpdateVariantRequest,
+    options?: RequestOptions
+  ): APIPromise<ExperimentVariant> {
     return this.httpClient.patch<ExperimentVariant>(
       `/v1/experiments/${experimentId}/variants/${variantId}`,
-      data
+      data, options
     );
   }
 
@@ -242,8 +244,8 @@ export class ExperimentsAPI {
    * await mql.experiments.deleteVariant('exp_123', 'var_456');
    * ```
    */
-  async deleteVariant(experimentId: string, variantId: string): Promise<{ message: string }> {
-    return this.httpClient.delete(`/v1/experiments/${experimentId}/variants/${variantId}`);
+  deleteVariant(experimentId: string, variantId: string, options?: RequestOptions): APIPromise<{ message: string }> {
+    return this.httpClient.delete(`/v1/experiments/${experimentId}/variants/${variantId}`, options);
   }
 
   /**
@@ -255,7 +257,7 @@ export class ExperimentsAPI {
    * console.log(analytics.variants);
    * ```
    */
-  async getAnalytics(id: string): Promise<ExperimentAnalytics> {
-    return this.httpClient.get<ExperimentAnalytics>(`/v1/experiments/${id}/analytics`);
+  getAnalytics(id: string, options?: RequestOptions): APIPromise<ExperimentAnalytics> {
+    return this.httpClient.get<ExperimentAnalytics>(`/v1/experiments/${id}/analytics`, undefined, options);
   }
 }
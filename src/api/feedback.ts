@@ -1,4 +1,5 @@
-import type { HttpClient } from '../client';
+import type { HttpClient, APIPromise } from '../client';
+import type { RequestOptions } from '../types';
 
 // ============================================================================
 // Feedback Types
@@ -17,7 +18,7 @@ export interface Feedback {
   comment: string | null;
   corrected_output: string | null;
   tags: string[] | null;
-  metadata: Record<string, any> | null;
+  metadata: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
 }
@@ -29,7 +30,7 @@ export interface SubmitFeedbackRequest {
   comment?: string;
   corrected_output?: string;
   tags?: string[];
-  metadata?: Record<string, any>;
+  metadata?: Record<string, unknown>;
 }
 
 export interface FeedbackAnalytics {
@@ -97,8 +98,8 @@ export class FeedbackAPI {
    * });
    * ```
    */
-  async submit(data: SubmitFeedbackRequest): Promise<Feedback> {
-    return this.httpClient.post<Feedback>('/v1/feedback', data);
+  submit(data: SubmitFeedbackRequest, options?: RequestOptions): APIPromise<Feedback> {
+    return this.httpClient.post<Feedback>('/v1/feedback', data, options);
   }
 
   /**
@@ -109,8 +110,8 @@ export class FeedbackAPI {
    * const feedback = await mql.feedback.get('req_123');
    * ```
    */
-  async get(requestId: string): Promise<Feedback> {
-    return this.httpClient.get<Feedback>(`/v1/feedback/${requestId}`);
+  get(requestId: string, options?: RequestOptions): APIPromise<Feedback> {
+    return this.httpClient.get<Feedback>(`/v1/feedback/${requestId}`, undefined, options);
   }
 
   /**
@@ -125,7 +126,7 @@ export class FeedbackAPI {
    * console.log(`Average rating: ${analytics.avg_rating}`);
    * ```
    */
-  async getAnalytics(params?: FeedbackAnalyticsParams): Promise<FeedbackAnalytics> {
+  getAnalytics(params?: FeedbackAnalyticsParams, options?: RequestOptions): APIPromise<FeedbackAnalytics> {
     const queryParams = new URLSearchParams();
     if (params?.start_date) queryParams.set('start_date', params.start_date);
     if (params?.end_date) queryParams.set('end_date', params.end_date);
@@ -134,7 +135,7 @@ export class FeedbackAPI {
     if (params?.tags) queryParams.set('tags', params.tags.join(','));
 
     const url = `/v1/feedback/analytics${queryParams.toString() ? `?${queryParams}` : ''}`;
-    return this.httpClient.get<FeedbackAnalytics>(url);
+    return this.httpClient.get<FeedbackAnalytics>(url, undefined, options);
   }
 
   /**
@@ -157,7 +158,7 @@ export class FeedbackAPI {
    * });
    * ```
    */
-  async export(params?: ExportFeedbackParams): Promise<string> {
+  export(params?: ExportFeedbackParams, options?: RequestOptions): APIPromise<string> {
     const queryParams = new URLSearchParams();
     if (params?.start_date) queryParams.set('start_date', params.start_date);
     if (params?.end_date) queryParams.set('end_date', params.end_date);
@@ -172,7 +173,11 @@ export class FeedbackAPI {
     // For export, we want the raw text response, but we use get() and let it return the data
     // The backend will return the appropriate content type
     return this.httpClient.get<string>(url, undefined, {
-      'Accept': params?.format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+      ...options,
+      headers: {
+        'Accept': params?.format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+        ...options?.headers,
+      },
     });
   }
 }
@@ -1,4 +1,4 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
 import type {
   Filter,
   FilterListResponse,
@@ -11,6 +11,7 @@ import type {
   FilterType,
   FilterAction,
   FilterApplyTo,
+  RequestOptions,
 } from '../types';
 
 /**
@@ -29,9 +30,9 @@ export class FiltersAPI {
    * filters.forEach(f => console.log(f.name, f.filterType, f.enabled));
    * ```
    */
-  async list(): Promise<FilterListResponse> {
-    const response = await this.client.get<Record<string, unknown>>('/v1/user/filters');
-    return this.transformListResponse(response);
+  list(options?: RequestOptions): APIPromise<FilterListResponse> {
+    return this.client.get<Record<string, unknown>>('/v1/user/filters', undefined, options)
+      .transform(response => this.transformListResponse(response));
   }
 
   /**
@@ -48,10 +49,12 @@ export class FiltersAPI {
    * });
    * ```
    */
-  async create(request: CreateFilterRequest): Promise<Filter> {
-    const body = this.transformCreateRequest(request);
-    const response = await this.client.post<Record<string, unknown>>('/v1/user/filters', body);
-    return this.transformFilter(response);
+  create(request: CreateFilterRequest, options?: RequestOptions): APIPromise<Filter> {
+    return APIPromise.defer(() => {
+      const body = this.transformCreateRequest(request);
+      return this.client.post<Record<string, unknown>>('/v1/user/filters', body, options)
+        .transform(response => this.transformFilter(response));
+    });
   }
 
   /**
@@ -65,10 +68,12 @@ export class FiltersAPI {
    * });
    * ```
    */
-  async update(filterId: string, request: UpdateFilterRequest): Promise<Filter> {
-    const body = this.transformUpdateRequest(request);
-    const response = await this.client.patch<Record<string, unknown>>(`/v1/user/filters/${filterId}`, body);
-    return this.transformFilter(response);
+  update(filterId: string, request: UpdateFilterRequest, options?: RequestOptions): APIPromise<Filter> {
+    return APIPromise.defer(() => {
+      const body = this.transformUpdateRequest(request);
+      return this.client.patch<Record<string, unknown>>(`/v1/user/filters/${filterId}`, body, options)
+        .transform(response => this.transformFilter(response));
+    });
   }
 
   /**
@@ -80,9 +85,9 @@ export class FiltersAPI {
    * console.log(`Filter is now ${toggled.enabled ? 'enabled' : 'disabled'}`);
    * ```
    */
-  async toggle(filterId: string): Promise<Filter> {
-    const response = await this.client.post<Record<string, unknown>>(`/v1/user/filters/${filterId}/toggle`);
-    return this.transformFilter(response);
+  toggle(filterId: string, options?: RequestOptions): APIPromise<Filter> {
+    return this.client.post<Record<string, unknown>>(`/v1/user/filters/${filterId}/toggle`, undefined, options)
+      .transform(response => this.transformFilter(response));
   }
 
   /**
@@ -93,8 +98,8 @@ export class FiltersAPI {
    * await mql.filters.delete('filter-id');
    * ```
    */
-  async delete(filterId: string): Promise<void> {
-    await this.client.delete(`/v1/user/filters/${filterId}`);
+  delete(filterId: string, options?: RequestOptions): APIPromise<void> {
+    return this.client.delete<void>(`/v1/user/filters/${filterId}`, options);
   }
 
   /**
@@ -106,9 +111,9 @@ export class FiltersAPI {
    * templates.forEach(t => console.log(t.name, t.category, t.description));
    * ```
    */
-  async getTemplates(): Promise<FilterTemplatesResponse> {
-    const response = await this.client.get<Record<string, unknown>>('/v1/filters/templates');
-    return this.transformTemplatesResponse(response);
+  getTemplates(options?: RequestOptions): APIPromise<FilterTemplatesResponse> {
+    return this.client.get<Record<string, unknown>>('/v1/filters/templates', undefined, options)
+      .transform(response => this.transformTemplatesResponse(response));
   }
 
   /**
@@ -123,15 +128,12 @@ export class FiltersAPI {
    * });
    * ```
    */
-  async createFromTemplate(request: CreateFilterFromTemplateRequest): Promise<Filter> {
-    const body = {
-      template_id: request.templateId,
-      name: request.name,
-      proxy_key_id: request.proxyKeyId,
-      org_id: request.orgId,
-    };
-    const response = await this.client.post<Record<string, unknown>>('/v1/filters/from-template', body);
-    return this.transformFilter(response);
+  createFromTemplate(request: CreateFilterFromTemplateRequest, options?: RequestOptions): APIPromise<Filter> {
+    return APIPromise.defer(() => {
+      const body = this.transformTemplateRequest(request);
+      return this.client.post<Record<string, unknown>>('/v1/filters/from-template', body, options)
+        .transform(response => this.transformFilter(response));
+    });
   }
 
   /**
@@ -149,15 +151,12 @@ export class FiltersAPI {
    * console.log(result.resultContent); // "Contact me at [REDACTED]"
    * ```
    */
-  async test(request: TestFilterRequest): Promise<TestFilterResponse> {
-    const body = {
-      filter_type: request.filterType,
-      action: request.action,
-      config: request.config,
-      test_content: request.testContent,
-    };
-    const response = await this.client.post<Record<string, unknown>>('/v1/filters/test', body);
-    return this.transformTestResponse(response);
+  test(request: TestFilterRequest, options?: RequestOptions): APIPromise<TestFilterResponse> {
+    return APIPromise.defer(() => {
+      const body = this.transformTestRequest(request);
+      return this.client.post<Record<string, unknown>>('/v1/filters/test', body, options)
+        .transform(response => this.transformTestResponse(response));
+    });
   }
 
   // ============================================================================
@@ -167,19 +166,21 @@ export class FiltersAPI {
   /**
    * List all filters for an organization
    */
-  async listForOrg(orgId: string): Promise<FilterListResponse> {
-    const response = await this.client.get<Record<string, unknown>>(`/v1/organizations/${orgId}/filters`);
-    return this.transformListResponse(response);
+  listForOrg(orgId: string, options?: RequestOptions): APIPromise<FilterListResponse> {
+    return this.client.get<Record<string, unknown>>(`/v1/organizations/${orgId}/filters`, undefined, options)
+      .transform(response => this.transformListResponse(response));
   }
 
   /**
    * Create a filter for an organization
    * @experimental Org filter creation is not yet available. Backend only supports listing.
    */
-  async createForOrg(orgId: string, request: CreateFilterRequest): Promise<Filter> {
-    const body = this.transformCreateRequest({ ...request, orgId });
-    const response = await this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/filters`, body);
-    return this.transformFilter(response);
+  createForOrg(orgId: string, request: CreateFilterRequest, options?: RequestOptions): APIPromise<Filter> {
+    return APIPromise.defer(() => {
+      const body = this.transformCreateRequest({ ...request, orgId });
+      return this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/filters`, body, options)
+        .transform(response => this.transformFilter(response));
+    });
   }
 
   // ============================================================================
@@ -211,6 +212,24 @@ export class FiltersAPI {
     };
   }
 
+  private transformTemplateRequest(request: CreateFilterFromTemplateRequest): Record<string, unknown> {
+    return {
+      template_id: request.templateId,
+      name: request.name,
+      proxy_key_id: request.proxyKeyId,
+      org_id: request.orgId,
+    };
+  }
+
+  private transformTestRequest(request: TestFilterRequest): Record<string, unknown> {
+    return {
+      filter_type: request.filterType,
+      action: request.action,
+      config: request.config,
+      test_content: request.testContent,
+    };
+  }
+
   private transformFilter(data: Record<string, unknown>): Filter {
     const f = data as {
       id: string;
@@ -1,4 +1,5 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
+import type { RequestOptions } from '../types';
 
 // ============================================================================
 // Types
@@ -117,8 +118,8 @@ export class ImagesAPI {
    * console.log('Image URL:', response.data[0].url);
    * ```
    */
-  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResponse> {
-    return this.client.post<ImageGenerationResponse>('/v1/images/generations', request);
+  generate(request: ImageGenerationRequest, options?: RequestOptions): APIPromise<ImageGenerationResponse> {
+    return this.client.post<ImageGenerationResponse>('/v1/images/generations', request, options);
   }
 
   /**
@@ -133,11 +134,11 @@ export class ImagesAPI {
    * const imageBase64 = response.data[0].b64_json;
    * ```
    */
-  async generateBase64(request: Omit<ImageGenerationRequest, 'response_format'>): Promise<ImageGenerationResponse> {
+  generateBase64(request: Omit<ImageGenerationRequest, 'response_format'>, options?: RequestOptions): APIPromise<ImageGenerationResponse> {
     return this.generate({
       ...request,
       response_format: 'b64_json',
-    });
+    }, options);
   }
 
   /**
@@ -153,12 +154,11 @@ export class ImagesAPI {
    * console.log('URLs:', urls);
    * ```
    */
-  async generateUrls(request: Omit<ImageGenerationRequest, 'response_format'>): Promise<string[]> {
-    const response = await this.generate({
+  generateUrls(request: Omit<ImageGenerationRequest, 'response_format'>, options?: RequestOptions): APIPromise<string[]> {
+    return this.generate({
       ...request,
       response_format: 'url',
-    });
-    return response.data.map(d => d.url).filter((url): url is string => !!url);
+    }, options).transform(response => response.data.map(d => d.url).filter((url): url is string => !!url));
   }
 
   /**
@@ -196,10 +196,10 @@ export class ImagesAPI {
    * });
    * ```
    */
-  async generateMiniMax(request: MinimaxImageRequest): Promise<MinimaxImageResponse> {
+  generateMiniMax(request: MinimaxImageRequest, options?: RequestOptions): APIPromise<MinimaxImageResponse> {
     return this.client.post<MinimaxImageResponse>('/v1/images/minimax/generations', {
       model: 'image-01',
       ...request,
-    });
+    }, options);
   }
 }
@@ -1,5 +1,5 @@
-import { HttpClient } from '../client';
-import type { Model, ModelListResponse } from '../types';
+import { HttpClient, APIPromise } from '../client';
+import type { Model, ModelListResponse, RequestOptions } from '../types';
 
 /**
  * Models API
@@ -20,8 +20,8 @@ export class ModelsAPI {
    * data.forEach(model => console.log(model.id, model.ownedBy));
    * ```
    */
-  async list(provider: string = 'openai'): Promise<ModelListResponse> {
-    return this.listByProvider(provider);
+  list(provider: string = 'openai', options?: RequestOptions): APIPromise<ModelListResponse> {
+    return this.listByProvider(provider, options);
   }
 
   /**
@@ -33,9 +33,9 @@ export class ModelsAPI {
    * const anthropicModels = await mql.models.listByProvider('anthropic');
    * ```
    */
-  async listByProvider(provider: string): Promise<ModelListResponse> {
-    const response = await this.client.get<Record<string, unknown>>(`/${provider}/v1/models`);
-    return this.transformResponse(response);
+  listByProvider(provider: string, options?: RequestOptions): APIPromise<ModelListResponse> {
+    return this.client.get<Record<string, unknown>>(`/${provider}/v1/models`, undefined, options)
+      .transform(response => this.transformResponse(response));
   }
 
   /**
@@ -49,8 +49,8 @@ export class ModelsAPI {
    * const model = await mql.models.get('gpt-4o-mini', 'openai');
    * ```
    */
-  async get(modelId: string, provider: string = 'openai'): Promise<Model> {
-    const response = await this.listByProvider(provider);
+  async get(modelId: string, provider: string = 'openai', options?: RequestOptions): Promise<Model> {
+    const response = await this.listByProvider(provider, options);
     const model = response.data.find(m => m.id === modelId);
     if (!model) {
       throw new Error(`Model '${modelId}' not found for provider '${provider}'`);
@@ -1,4 +1,5 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
+import type { RequestOptions } from '../types';
 
 // ============================================================================
 // Types
@@ -71,8 +72,8 @@ export class MusicAPI {
    * console.log('Music with custom lyrics:', custom.audio_url);
    * ```
    */
-  async generate(request: MusicGenerationRequest): Promise<MusicGenerationResponse> {
-    return this.client.post<MusicGenerationResponse>('/v1/music/generations', request);
+  generate(request: MusicGenerationRequest, options?: RequestOptions): APIPromise<MusicGenerationResponse> {
+    return this.client.post<MusicGenerationResponse>('/v1/music/generations', request, options);
   }
 
   /**
@@ -84,8 +85,8 @@ export class MusicAPI {
    * console.log('Generated:', music.audio_url);
    * ```
    */
-  async generateFromPrompt(prompt: string): Promise<MusicGenerationResponse> {
-    return this.generate({ prompt });
+  generateFromPrompt(prompt: string, options?: RequestOptions): APIPromise<MusicGenerationResponse> {
+    return this.generate({ prompt }, options);
   }
 
   /**
@@ -105,7 +106,7 @@ export class MusicAPI {
    * );
    * ```
    */
-  async generateWithLyrics(prompt: string, lyrics: string): Promise<MusicGenerationResponse> {
-    return this.generate({ prompt, lyrics });
+  generateWithLyrics(prompt: string, lyrics: string, options?: RequestOptions): APIPromise<MusicGenerationResponse> {
+    return this.generate({ prompt, lyrics }, options);
   }
 }
@@ -1,4 +1,4 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
 import type {
   Organization,
   CreateOrganizationRequest,
@@ -10,6 +10,7 @@ import type {
   UpdateMemberRoleRequest,
   PendingInvite,
   UserRole,
+  RequestOptions,
 } from '../types';
 
 /**
@@ -32,9 +33,9 @@ export class OrganizationsAPI {
    * organizations.forEach(org => console.log(org.name, org.displayName));
    * ```
    */
-  async list(): Promise<UserOrganizationsResponse> {
-    const response = await this.client.get<Record<string, unknown>>('/v1/organizations');
-    return this.transformListResponse(response);
+  list(options?: RequestOptions): APIPromise<UserOrganizationsResponse> {
+    return this.client.get<Record<string, unknown>>('/v1/organizations', undefined, options)
+      .transform(response => this.transformListResponse(response));
   }
 
   /**
@@ -47,9 +48,9 @@ export class OrganizationsAPI {
    * console.log(`Your role: ${org.yourRole}`);
    * ```
    */
-  async get(orgId: string): Promise<Organization> {
-    const response = await this.client.get<Record<string, unknown>>(`/v1/organizations/${orgId}`);
-    return this.transformOrganization(response);
+  get(orgId: string, options?: RequestOptions): APIPromise<Organization> {
+    return this.client.get<Record<string, unknown>>(`/v1/organizations/${orgId}`, undefined, options)
+      .transform(response => this.transformOrganization(response));
   }
 
   /**
@@ -63,13 +64,13 @@ export class OrganizationsAPI {
    * });
    * ```
    */
-  async create(request: CreateOrganizationRequest): Promise<Organization> {
+  create(request: CreateOrganizationRequest, options?: RequestOptions): APIPromise<Organization> {
     const body = {
       name: request.name,
       display_name: request.displayName,
     };
-    const response = await this.client.post<Record<string, unknown>>('/v1/organizations', body);
-    return this.transformOrganization(response);
+    return this.client.post<Record<string, unknown>>('/v1/organizations', body, options)
+      .transform(response => this.transformOrganization(response));
   }
 
   // ============================================================================
@@ -85,9 +86,9 @@ export class OrganizationsAPI {
    * members.forEach(m => console.log(m.email, m.role));
    * ```
    */
-  async listMembers(orgId: string): Promise<OrganizationMember[]> {
-    const response = await this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/members`);
-    return response.map(m => this.transformMember(m));
+  listMembers(orgId: string, options?: RequestOptions): APIPromise<OrganizationMember[]> {
+    return this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/members`, undefined, options)
+      .transform(response => response.map(m => this.transformMember(m)));
   }
 
   /**
@@ -98,8 +99,8 @@ export class OrganizationsAPI {
    * await mql.organizations.updateMemberRole('org-id', 'user-id', { role: 'admin' });
    * ```
    */
-  async updateMemberRole(orgId: string, userId: string, request: UpdateMemberRoleRequest): Promise<void> {
-    await this.client.patch(`/v1/organizations/${orgId}/members/${userId}`, { role: request.role });
+  updateMemberRole(orgId: string, userId: string, request: UpdateMemberRoleRequest, options?: RequestOptions): APIPromise<void> {
+    return this.client.patch<void>(`/v1/organizations/${orgId}/members/${userId}`, { role: request.role }, options);
   }
 
   /**
@@ -110,8 +111,8 @@ export class OrganizationsAPI {
    * await mql.organizations.removeMember('org-id', 'user-id');
    * ```
    */
-  async removeMember(orgId: string, userId: string): Promise<void> {
-    await this.client.delete(`/v1/organizations/${orgId}/members/${userId}`);
+  removeMember(orgId: string, userId: string, options?: RequestOptions): APIPromise<void> {
+    return this.client.delete<void>(`/v1/organizations/${orgId}/members/${userId}`, options);
   }
 
   // ============================================================================
@@ -127,9 +128,9 @@ export class OrganizationsAPI {
    * invites.forEach(i => console.log(i.email, i.status, i.role));
    * ```
    */
-  async listInvites(orgId: string): Promise<OrganizationInvite[]> {
-    const response = await this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/invites`);
-    return response.map(i => this.transformInvite(i));
+  listInvites(orgId: string, options?: RequestOptions): APIPromise<OrganizationInvite[]> {
+    return this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/invites`, undefined, options)
+      .transform(response => response.map(i => this.transformInvite(i)));
   }
 
   /**
@@ -143,13 +144,13 @@ export class OrganizationsAPI {
    * });
    * ```
    */
-  async inviteMember(orgId: string, request: InviteMemberRequest): Promise<OrganizationInvite> {
+  inviteMember(orgId: string, request: InviteMemberRequest, options?: RequestOptions): APIPromise<OrganizationInvite> {
     const body = {
       email: request.email,
       role: request.role,
     };
-    const response = await this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/invites`, body);
-    return this.transformInvite(response);
+    return this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/invites`, body, options)
+      .transform(response => this.transformInvite(response));
   }
 
   /**
@@ -160,8 +161,8 @@ export class OrganizationsAPI {
    * await mql.organizations.resendInvite('org-id', 'invite-id');
    * ```
    */
-  async resendInvite(orgId: string, inviteId: string): Promise<void> {
-    await this.client.post(`/v1/organizations/${orgId}/invites/${inviteId}/resend`);
+  resendInvite(orgId: string, inviteId: string, options?: RequestOptions): APIPromise<void> {
+    return this.client.post<void>(`/v1/organizations/${orgId}/invites/${inviteId}/resend`, undefined, options);
   }
 
   /**
@@ -172,8 +173,8 @@ export class OrganizationsAPI {
    * await mql.organizations.cancelInvite('org-id', 'invite-id');
    * ```
    */
-  async cancelInvite(orgId: string, inviteId: string): Promise<void> {
-    await this.client.delete(`/v1/organizations/${orgId}/invites/${inviteId}`);
+  cancelInvite(orgId: string, inviteId: string, options?: RequestOptions): APIPromise<void> {
+    return this.client.delete<void>(`/v1/organizations/${orgId}/invites/${inviteId}`, options);
   }
 
   /**
@@ -185,9 +186,9 @@ export class OrganizationsAPI {
    * myInvites.forEach(i => console.log(`Invited to ${i.orgName} as ${i.role}`));
    * ```
    */
-  async getMyInvites(): Promise<PendingInvite[]> {
-    const response = await this.client.get<Array<Record<string, unknown>>>('/v1/invites/pending');
-    return response.map(i => this.transformPendingInvite(i));
+  getMyInvites(options?: RequestOptions): APIPromise<PendingInvite[]> {
+    return this.client.get<Array<Record<string, unknown>>>('/v1/invites/pending', undefined, options)
+      .transform(response => response.map(i => this.transformPendingInvite(i)));
   }
 
   /**
@@ -200,16 +201,16 @@ export class OrganizationsAPI {
    * console.log(`Joined ${result.orgId} as ${result.role}`);
    * ```
    */
-  async acceptInvite(request: AcceptInviteRequest): Promise<{ orgId: string; role: string }> {
-    const response = await this.client.post<Record<string, unknown>>('/v1/invites/accept', {
+  acceptInvite(request: AcceptInviteRequest, options?: RequestOptions): APIPromise<{ orgId: string; role: string }> {
+    return this.client.post<Record<string, unknown>>('/v1/invites/accept', {
       token: request.token,
+    }, options).transform(response => {
+      const data = response as { org_id: string; role: string };
+      return {
+        orgId: data.org_id,
+        role: data.role,
+      };
     });
-    
-    const data = response as { org_id: string; role: string };
-    return {
-      orgId: data.org_id,
-      role: data.role,
-    };
   }
 
   // ============================================================================
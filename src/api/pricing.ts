@@ -1,5 +1,7 @@
-import { HttpClient } from '../client';
-import type { ModelPricing, ProviderPricingResponse } from '../types';
+import { HttpClient, APIPromise } from '../client';
+import { estimateCost, TokenCounter, type CostEstimate, type TokenCounterOptions } from '../lib/tokenizer';
+import type { EmbeddingRequest } from './embeddings';
+import type { ChatCompletionRequest, ModelPricing, ProviderPricingResponse, RequestOptions } from '../types';
 
 /**
  * Pricing API
@@ -19,44 +21,106 @@ export class PricingAPI {
    * });
    * ```
    */
-  async getByProvider(provider: string): Promise<ProviderPricingResponse> {
-    const response = await this.client.get<Record<string, unknown>>(`/${provider}/v1/pricing`);
-    return this.transformResponse(response);
+  getByProvider(provider: string, options?: RequestOptions): APIPromise<ProviderPricingResponse> {
+    return this.client.get<Record<string, unknown>>(`/${provider}/v1/pricing`, undefined, options)
+      .transform(response => this.transformResponse(response));
   }
 
   /**
    * Get pricing for OpenAI models
    */
-  async getOpenAI(): Promise<ProviderPricingResponse> {
-    return this.getByProvider('openai');
+  getOpenAI(options?: RequestOptions): APIPromise<ProviderPricingResponse> {
+    return this.getByProvider('openai', options);
   }
 
   /**
    * Get pricing for Anthropic models
    */
-  async getAnthropic(): Promise<ProviderPricingResponse> {
-    return this.getByProvider('anthropic');
+  getAnthropic(options?: RequestOptions): APIPromise<ProviderPricingResponse> {
+    return this.getByProvider('anthropic', options);
   }
 
   /**
    * Get pricing for Mistral models
    */
-  async getMistral(): Promise<ProviderPricingResponse> {
-    return this.getByProvider('mistral');
+  getMistral(options?: RequestOptions): APIPromise<ProviderPricingResponse> {
+    return this.getByProvider('mistral', options);
   }
 
   /**
    * Get pricing for Google Gemini models
    */
-  async getGemini(): Promise<ProviderPricingResponse> {
-    return this.getByProvider('gemini');
+  getGemini(options?: RequestOptions): APIPromise<ProviderPricingResponse> {
+    return this.getByProvider('gemini', options);
   }
 
   /**
    * Get pricing for Cohere models
    */
-  async getCohere(): Promise<ProviderPricingResponse> {
-    return this.getByProvider('cohere');
+  getCohere(options?: RequestOptions): APIPromise<ProviderPricingResponse> {
+    return this.getByProvider('cohere', options);
+  }
+
+  /**
+   * Get pricing and capabilities for a single model, or `undefined` if the provider does not list it
+   *
+   * @example
+   * ```typescript
+   * const gpt4o = await mql.pricing.getModel('openai', 'gpt-4o');
+   * console.log(gpt4o?.contextLength, gpt4o?.supportsVision);
+   * ```
+   */
+  async getModel(provider: string, model: string, options?: RequestOptions): Promise<ModelPricing | undefined> {
+    const pricing = await this.getByProvider(provider, options);
+    return pricing.models.find(m => m.model === model);
+  }
+
+  /**
+   * Check whether a model accepts image input, according to the provider's pricing data.
+   * Resolves to `undefined` when the model is not listed or its capability is unknown.
+   *
+   * @example
+   * ```typescript
+   * if (hasImageContent(messages) && !(await mql.pricing.supportsVision('openai', 'gpt-4o'))) {
+   *   throw new Error('Model cannot read images');
+   * }
+   * ```
+   */
+  async supportsVision(provider: string, model: string, options?: RequestOptions): Promise<boolean | undefined> {
+    return (await this.getModel(provider, model, options))?.supportsVision;
+  }
+
+  /**
+   * Estimate what a chat or embeddings request will cost before sending it,
+   * using the provider's per-token prices and a client-side token count.
+   * Chat requests need `maxTokens` when the model's context length is unknown.
+   *
+   * @example
+   * ```typescript
+   * const estimate = await mql.pricing.estimateCost('openai', {
+   *   model: 'gpt-4o',
+   *   messages,
+   *   maxTokens: 500,
+   * });
+   * if (estimate.maxTotalCostUsd > 0.05) {
+   *   throw new Error(`Too expensive: $${estimate.maxTotalCostUsd.toFixed(4)}`);
+   * }
+   * ```
+   */
+  async estimateCost(
+    provider: string,
+    request: ChatCompletionRequest | EmbeddingRequest,
+    options?: TokenCounterOptions & RequestOptions
+  ): Promise<CostEstimate> {
+    if (!request.model) {
+      throw new Error('estimateCost requires request.model');
+    }
+    const { tokenizer, ...requestOptions } = options ?? {};
+    const pricing = await this.getModel(provider, request.model, requestOptions);
+    if (!pricing) {
+      throw new Error(`No pricing found for model "${request.model}" at provider "${provider}"`);
+    }
+    return estimateCost(request, pricing, new TokenCounter({ tokenizer }));
   }
 
   // ============================================================================
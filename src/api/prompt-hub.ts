@@ -1,4 +1,5 @@
-import type { HttpClient } from '../client';
+import type { HttpClient, APIPromise } from '../client';
+import type { RequestOptions } from '../types';
 
 // ============================================================================
 // Prompt Hub Types
@@ -95,8 +96,8 @@ export class PromptHubAPI {
    * });
    * ```
    */
-  async create(data: CreatePromptRequest): Promise<PromptHubPrompt> {
-    return this.httpClient.post<PromptHubPrompt>('/v1/prompt-hub/prompts', data);
+  create(data: CreatePromptRequest, options?: RequestOptions): APIPromise<PromptHubPrompt> {
+    return this.httpClient.post<PromptHubPrompt>('/v1/prompt-hub/prompts', data, options);
   }
 
   /**
@@ -107,8 +108,8 @@ export class PromptHubAPI {
    * const prompts = await mql.promptHub.list();
    * ```
    */
-  async list(): Promise<PromptHubPrompt[]> {
-    return this.httpClient.get<PromptHubPrompt[]>('/v1/prompt-hub/prompts');
+  list(options?: RequestOptions): APIPromise<PromptHubPrompt[]> {
+    return this.httpClient.get<PromptHubPrompt[]>('/v1/prompt-hub/prompts', undefined, options);
   }
 
   /**
@@ -119,8 +120,8 @@ export class PromptHubAPI {
    * const prompt = await mql.promptHub.get('prompt_123');
    * ```
    */
-  async get(id: string): Promise<PromptHubPrompt> {
-    return this.httpClient.get<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}`);
+  get(id: string, options?: RequestOptions): APIPromise<PromptHubPrompt> {
+    return this.httpClient.get<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}`, undefined, options);
   }
 
   /**
@@ -133,8 +134,8 @@ export class PromptHubAPI {
    * });
    * ```
    */
-  async update(id: string, data: UpdatePromptRequest): Promise<PromptHubPrompt> {
-    return this.httpClient.patch<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}`, data);
+  update(id: string, data: UpdatePromptRequest, options?: RequestOptions): APIPromise<PromptHubPrompt> {
+    return this.httpClient.patch<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}`, data, options);
   }
 
   /**
@@ -145,8 +146,8 @@ export class PromptHubAPI {
    * await mql.promptHub.delete('prompt_123');
    * ```
    */
-  async delete(id: string): Promise<{ message: string }> {
-    return this.httpClient.delete(`/v1/prompt-hub/prompts/${id}`);
+  delete(id: string, options?: RequestOptions): APIPromise<{ message: string }> {
+    return this.httpClient.delete(`/v1/prompt-hub/prompts/${id}`, options);
   }
 
   /**
@@ -157,8 +158,8 @@ export class PromptHubAPI {
    * await mql.promptHub.publish('prompt_123');
    * ```
    */
-  async publish(id: string): Promise<PromptHubPrompt> {
-    return this.httpClient.post<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}/publish`, {});
+  publish(id: string, options?: RequestOptions): APIPromise<PromptHubPrompt> {
+    return this.httpClient.post<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}/publish`, {}, options);
   }
 
   /**
@@ -169,8 +170,8 @@ export class PromptHubAPI {
    * await mql.promptHub.unpublish('prompt_123');
    * ```
    */
-  async unpublish(id: string): Promise<PromptHubPrompt> {
-    return this.httpClient.post<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}/unpublish`, {});
+  unpublish(id: string, options?: RequestOptions): APIPromise<PromptHubPrompt> {
+    return this.httpClient.post<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}/unpublish`, {}, options);
   }
 
   /**
@@ -194,8 +195,8 @@ export class PromptHubAPI {
    * });
    * ```
    */
-  async share(id: string, data: SharePromptRequest): Promise<PromptShare> {
-    return this.httpClient.post<PromptShare>(`/v1/prompt-hub/prompts/${id}/share`, data);
+  share(id: string, data: SharePromptRequest, options?: RequestOptions): APIPromise<PromptShare> {
+    return this.httpClient.post<PromptShare>(`/v1/prompt-hub/prompts/${id}/share`, data, options);
   }
 
   /**
@@ -208,8 +209,8 @@ export class PromptHubAPI {
    * const shares = await mql.promptHub.listShares('prompt_123');
    * ```
    */
-  async listShares(id: string): Promise<PromptShare[]> {
-    return this.httpClient.get<PromptShare[]>(`/v1/prompt-hub/prompts/${id}/shares`);
+  listShares(id: string, options?: RequestOptions): APIPromise<PromptShare[]> {
+    return this.httpClient.get<PromptShare[]>(`/v1/prompt-hub/prompts/${id}/shares`, undefined, options);
   }
 
   /**
@@ -222,8 +223,8 @@ export class PromptHubAPI {
    * await mql.promptHub.revokeShare('prompt_123', 'share_456');
    * ```
    */
-  async revokeShare(promptId: string, shareId: string): Promise<{ message: string }> {
-    return this.httpClient.delete(`/v1/prompt-hub/prompts/${promptId}/shares/${shareId}`);
+  revokeShare(promptId: string, shareId: string, options?: RequestOptions): APIPromise<{ message: string }> {
+    return this.httpClient.delete(`/v1/prompt-hub/prompts/${promptId}/shares/${shareId}`, options);
   }
 
   /**
@@ -236,8 +237,8 @@ export class PromptHubAPI {
    * const prompt = await mql.promptHub.getShared('share_token_123');
    * ```
    */
-  async getShared(shareToken: string): Promise<PromptHubPrompt> {
-    return this.httpClient.get<PromptHubPrompt>(`/v1/prompt-hub/shared/${shareToken}`);
+  getShared(shareToken: string, options?: RequestOptions): APIPromise<PromptHubPrompt> {
+    return this.httpClient.get<PromptHubPrompt>(`/v1/prompt-hub/shared/${shareToken}`, undefined, options);
   }
 
 
@@ -254,8 +255,8 @@ export class PromptHubAPI {
    * await mql.promptHub.star('prompt_123');
    * ```
    */
-  async star(id: string): Promise<{ message: string }> {
-    return this.httpClient.post(`/v1/prompt-hub/prompts/${id}/star`, {});
+  star(id: string, options?: RequestOptions): APIPromise<{ message: string }> {
+    return this.httpClient.post(`/v1/prompt-hub/prompts/${id}/star`, {}, options);
   }
 
   /**
@@ -268,8 +269,8 @@ export class PromptHubAPI {
    * await mql.promptHub.unstar('prompt_123');
    * ```
    */
-  async unstar(id: string): Promise<{ message: string }> {
-    return this.httpClient.delete(`/v1/prompt-hub/prompts/${id}/star`);
+  unstar(id: string, options?: RequestOptions): APIPromise<{ message: string }> {
+    return this.httpClient.delete(`/v1/prompt-hub/prompts/${id}/star`, options);
   }
 
   /**
@@ -282,8 +283,8 @@ export class PromptHubAPI {
    * const starred = await mql.promptHub.listStarred();
    * ```
    */
-  async listStarred(): Promise<StarredPrompt[]> {
-    return this.httpClient.get<StarredPrompt[]>('/v1/prompt-hub/starred');
+  listStarred(options?: RequestOptions): APIPromise<StarredPrompt[]> {
+    return this.httpClient.get<StarredPrompt[]>('/v1/prompt-hub/starred', undefined, options);
   }
 
   /**
@@ -296,8 +297,8 @@ export class PromptHubAPI {
    * const forkedPrompt = await mql.promptHub.fork('prompt_123');
    * ```
    */
-  async fork(id: string): Promise<PromptHubPrompt> {
-    return this.httpClient.post<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}/fork`, {});
+  fork(id: string, options?: RequestOptions): APIPromise<PromptHubPrompt> {
+    return this.httpClient.post<PromptHubPrompt>(`/v1/prompt-hub/prompts/${id}/fork`, {}, options);
   }
 
   /**
@@ -308,10 +309,10 @@ export class PromptHubAPI {
    * await mql.promptHub.attachToKey('prompt_123', 'key_456');
    * ```
    */
-  async attachToKey(promptId: string, proxyKey: string): Promise<{ message: string }> {
+  attachToKey(promptId: string, proxyKey: string, options?: RequestOptions): APIPromise<{ message: string }> {
     return this.httpClient.post(`/v1/proxy-keys/${proxyKey}/prompt-hub`, {
       prompt_id: promptId
-    });
+    }, options);
   }
 
   /**
@@ -322,8 +323,8 @@ export class PromptHubAPI {
    * await mql.promptHub.detachFromKey('prompt_123', 'key_456');
    * ```
    */
-  async detachFromKey(promptId: string, proxyKey: string): Promise<{ message: string }> {
-    return this.httpClient.delete(`/v1/proxy-keys/${proxyKey}/prompt-hub/${promptId}`);
+  detachFromKey(promptId: string, proxyKey: string, options?: RequestOptions): APIPromise<{ message: string }> {
+    return this.httpClient.delete(`/v1/proxy-keys/${proxyKey}/prompt-hub/${promptId}`, options);
   }
 
   /**
@@ -334,8 +335,8 @@ export class PromptHubAPI {
    * const prompts = await mql.promptHub.listKeyPrompts('key_123');
    * ```
    */
-  async listKeyPrompts(proxyKey: string): Promise<PromptHubPrompt[]> {
-    return this.httpClient.get<PromptHubPrompt[]>(`/v1/proxy-keys/${proxyKey}/prompt-hub`);
+  listKeyPrompts(proxyKey: string, options?: RequestOptions): APIPromise<PromptHubPrompt[]> {
+    return this.httpClient.get<PromptHubPrompt[]>(`/v1/proxy-keys/${proxyKey}/prompt-hub`, undefined, options);
   }
 
   /**
@@ -346,7 +347,7 @@ export class PromptHubAPI {
    * const prompts = await mql.promptHub.getPromptsForKey('pk_123');
    * ```
    */
-  async getPromptsForKey(proxyKey: string): Promise<PromptHubPrompt[]> {
-    return this.httpClient.get<PromptHubPrompt[]>(`/v1/proxy-keys/${proxyKey}/prompt-hub`);
+  getPromptsForKey(proxyKey: string, options?: RequestOptions): APIPromise<PromptHubPrompt[]> {
+    return this.httpClient.get<PromptHubPrompt[]>(`/v1/proxy-keys/${proxyKey}/prompt-hub`, undefined, options);
   }
 }
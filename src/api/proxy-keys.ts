@@ -1,4 +1,4 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
 import type {
   CreateProxyKeyRequest,
   CreateProxyKeyResponse,
@@ -8,6 +8,11 @@ import type {
   ProviderConfig,
   TestProxyKeyRequest,
   ChatCompletionResponse,
+  FilterAction,
+  FilterApplyTo,
+  FilterType,
+  InjectionMode,
+  RequestOptions,
 } from '../types';
 
 /**
@@ -26,9 +31,9 @@ export class ProxyKeysAPI {
    * keys.forEach(key => console.log(key.keyPreview, key.activeProvider));
    * ```
    */
-  async list(): Promise<ProxyKeyListResponse> {
-    const response = await this.client.get<Record<string, unknown>>('/v1/user/proxy-keys');
-    return this.transformListResponse(response);
+  list(options?: RequestOptions): APIPromise<ProxyKeyListResponse> {
+    return this.client.get<Record<string, unknown>>('/v1/user/proxy-keys', undefined, options)
+      .transform(response => this.transformListResponse(response));
   }
 
   /**
@@ -46,10 +51,12 @@ export class ProxyKeysAPI {
    * });
    * ```
    */
-  async create(request: CreateProxyKeyRequest): Promise<CreateProxyKeyResponse> {
-    const body = this.transformCreateRequest(request);
-    const response = await this.client.post<Record<string, unknown>>('/v1/user/proxy-keys', body);
-    return this.transformCreateResponse(response);
+  create(request: CreateProxyKeyRequest, options?: RequestOptions): APIPromise<CreateProxyKeyResponse> {
+    return APIPromise.defer(() => {
+      const body = this.transformCreateRequest(request);
+      return this.client.post<Record<string, unknown>>('/v1/user/proxy-keys', body, options)
+        .transform(response => this.transformCreateResponse(response));
+    });
   }
 
   /**
@@ -62,9 +69,9 @@ export class ProxyKeysAPI {
    * console.log(`All exhausted: ${usage.allExhausted}`);
    * ```
    */
-  async getUsage(keyId: string): Promise<ProxyKeyUsageResponse> {
-    const response = await this.client.get<Record<string, unknown>>(`/v1/user/proxy-keys/${keyId}/usage`);
-    return this.transformUsageResponse(response);
+  getUsage(keyId: string, options?: RequestOptions): APIPromise<ProxyKeyUsageResponse> {
+    return this.client.get<Record<string, unknown>>(`/v1/user/proxy-keys/${keyId}/usage`, undefined, options)
+      .transform(response => this.transformUsageResponse(response));
   }
 
   /**
@@ -75,8 +82,8 @@ export class ProxyKeysAPI {
    * await mql.proxyKeys.delete('key-id');
    * ```
    */
-  async delete(keyId: string): Promise<void> {
-    await this.client.delete(`/v1/user/proxy-keys/${keyId}`);
+  delete(keyId: string, options?: RequestOptions): APIPromise<void> {
+    return this.client.delete<void>(`/v1/user/proxy-keys/${keyId}`, options);
   }
 
   /**
@@ -88,9 +95,9 @@ export class ProxyKeysAPI {
    * console.log(`New key: ${proxyKey}`);
    * ```
    */
-  async regenerate(keyId: string): Promise<RegenerateProxyKeyResponse> {
-    const response = await this.client.post<Record<string, unknown>>(`/v1/user/proxy-keys/${keyId}/regenerate`);
-    return this.transformRegenerateResponse(response);
+  regenerate(keyId: string, options?: RequestOptions): APIPromise<RegenerateProxyKeyResponse> {
+    return this.client.post<Record<string, unknown>>(`/v1/user/proxy-keys/${keyId}/regenerate`, undefined, options)
+      .transform(response => this.transformRegenerateResponse(response));
   }
 
   /**
@@ -104,9 +111,9 @@ export class ProxyKeysAPI {
    * });
    * ```
    */
-  async test(keyId: string, request: TestProxyKeyRequest): Promise<ChatCompletionResponse> {
-    const response = await this.client.post<Record<string, unknown>>(`/v1/user/proxy-keys/${keyId}/test`, request);
-    return this.transformTestResponse(response);
+  test(keyId: string, request: TestProxyKeyRequest, options?: RequestOptions): APIPromise<ChatCompletionResponse> {
+    return this.client.post<Record<string, unknown>>(`/v1/user/proxy-keys/${keyId}/test`, request, options)
+      .transform(response => this.transformTestResponse(response));
   }
 
   // ============================================================================
@@ -116,33 +123,35 @@ export class ProxyKeysAPI {
   /**
    * List all proxy keys for an organization
    */
-  async listForOrg(orgId: string): Promise<ProxyKeyListResponse> {
-    const response = await this.client.get<Record<string, unknown>>(`/v1/organizations/${orgId}/proxy-keys`);
-    return this.transformListResponse(response);
+  listForOrg(orgId: string, options?: RequestOptions): APIPromise<ProxyKeyListResponse> {
+    return this.client.get<Record<string, unknown>>(`/v1/organizations/${orgId}/proxy-keys`, undefined, options)
+      .transform(response => this.transformListResponse(response));
   }
 
   /**
    * Create a new proxy key for an organization
    */
-  async createForOrg(orgId: string, request: CreateProxyKeyRequest): Promise<CreateProxyKeyResponse> {
-    const body = this.transformCreateRequest(request);
-    const response = await this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/proxy-keys`, body);
-    return this.transformCreateResponse(response);
+  createForOrg(orgId: string, request: CreateProxyKeyRequest, options?: RequestOptions): APIPromise<CreateProxyKeyResponse> {
+    return APIPromise.defer(() => {
+      const body = this.transformCreateRequest(request);
+      return this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/proxy-keys`, body, options)
+        .transform(response => this.transformCreateResponse(response));
+    });
   }
 
   /**
    * Delete an organization proxy key
    */
-  async deleteForOrg(orgId: string, keyId: string): Promise<void> {
-    await this.client.delete(`/v1/organizations/${orgId}/proxy-keys/${keyId}`);
+  deleteForOrg(orgId: string, keyId: string, options?: RequestOptions): APIPromise<void> {
+    return this.client.delete<void>(`/v1/organizations/${orgId}/proxy-keys/${keyId}`, options);
   }
 
   /**
    * Regenerate an organization proxy key
    */
-  async regenerateForOrg(orgId: string, keyId: string): Promise<RegenerateProxyKeyResponse> {
-    const response = await this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/proxy-keys/${keyId}/regenerate`);
-    return this.transformRegenerateResponse(response);
+  regenerateForOrg(orgId: string, keyId: string, options?: RequestOptions): APIPromise<RegenerateProxyKeyResponse> {
+    return this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/proxy-keys/${keyId}/regenerate`, undefined, options)
+      .transform(response => this.transformRegenerateResponse(response));
   }
 
   // ============================================================================
@@ -240,9 +249,9 @@ export class ProxyKeysAPI {
         id: string;
         name: string;
         description?: string;
-        filter_type: string;
-        action: string;
-        apply_to: string;
+        filter_type: FilterType;
+        action: FilterAction;
+        apply_to: FilterApplyTo;
         enabled: boolean;
         config: Record<string, unknown>;
       }>;
@@ -251,7 +260,7 @@ export class ProxyKeysAPI {
         name: string;
         description?: string;
         content: string;
-        injection_mode: string;
+        injection_mode: InjectionMode;
         priority: number;
       }>;
     };
@@ -273,9 +282,9 @@ export class ProxyKeysAPI {
         id: f.id,
         name: f.name,
         description: f.description,
-        filterType: f.filter_type as any,
-        action: f.action as any,
-        applyTo: f.apply_to as any,
+        filterType: f.filter_type,
+        action: f.action,
+        applyTo: f.apply_to,
         enabled: f.enabled,
         config: f.config,
       })),
@@ -284,7 +293,7 @@ export class ProxyKeysAPI {
         name: p.name,
         description: p.description,
         content: p.content,
-        injectionMode: p.injection_mode as any,
+        injectionMode: p.injection_mode,
         priority: p.priority,
       })),
     };
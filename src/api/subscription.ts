@@ -1,4 +1,4 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
 import type {
   SubscriptionStatus,
   TrialStatus,
@@ -7,6 +7,7 @@ import type {
   PlanTier,
   PlanLimits,
   PlanFeatures,
+  RequestOptions,
 } from '../types';
 
 /**
@@ -36,12 +37,12 @@ export class SubscriptionAPI {
    * console.log(`Proxy keys: ${status.usage.proxyKeys}/${status.limits.maxProxyKeys}`);
    * ```
    */
-  async getStatus(orgId?: string): Promise<SubscriptionStatus> {
+  getStatus(orgId?: string, options?: RequestOptions): APIPromise<SubscriptionStatus> {
     // Use org endpoint if orgId provided, otherwise use user endpoint
     const url = orgId
       ? `/v1/organizations/${orgId}/subscription-status`
       : '/v1/user/subscription-status';
-    return this.client.get<SubscriptionStatus>(url);
+    return this.client.get<SubscriptionStatus>(url, undefined, options);
   }
 
   /**
@@ -55,8 +56,8 @@ export class SubscriptionAPI {
    * }
    * ```
    */
-  async getPlanTier(orgId?: string): Promise<PlanTier> {
-    const status = await this.getStatus(orgId);
+  async getPlanTier(orgId?: string, options?: RequestOptions): Promise<PlanTier> {
+    const status = await this.getStatus(orgId, options);
     return status.tier;
   }
 
@@ -69,8 +70,8 @@ export class SubscriptionAPI {
    * console.log(`Max proxy keys: ${limits.maxProxyKeys === -1 ? 'Unlimited' : limits.maxProxyKeys}`);
    * ```
    */
-  async getLimits(orgId?: string): Promise<PlanLimits> {
-    const status = await this.getStatus(orgId);
+  async getLimits(orgId?: string, options?: RequestOptions): Promise<PlanLimits> {
+    const status = await this.getStatus(orgId, options);
     return status.limits;
   }
 
@@ -85,8 +86,8 @@ export class SubscriptionAPI {
    * }
    * ```
    */
-  async getFeatures(orgId?: string): Promise<PlanFeatures> {
-    const status = await this.getStatus(orgId);
+  async getFeatures(orgId?: string, options?: RequestOptions): Promise<PlanFeatures> {
+    const status = await this.getStatus(orgId, options);
     return status.features;
   }
 
@@ -99,8 +100,8 @@ export class SubscriptionAPI {
    * const hasWebhooks = await mql.subscription.hasFeature('webhooks');
    * ```
    */
-  async hasFeature(feature: keyof PlanFeatures, orgId?: string): Promise<boolean> {
-    const features = await this.getFeatures(orgId);
+  async hasFeature(feature: keyof PlanFeatures, orgId?: string, options?: RequestOptions): Promise<boolean> {
+    const features = await this.getFeatures(orgId, options);
     return features[feature] ?? false;
   }
 
@@ -124,12 +125,12 @@ export class SubscriptionAPI {
    * }
    * ```
    */
-  async getTrialStatus(orgId?: string): Promise<TrialStatus> {
+  getTrialStatus(orgId?: string, options?: RequestOptions): APIPromise<TrialStatus> {
     // Use org endpoint if orgId provided, otherwise use user endpoint
     const url = orgId
       ? `/v1/organizations/${orgId}/trial-status`
       : '/v1/user/trial/status';
-    return this.client.get<TrialStatus>(url);
+    return this.client.get<TrialStatus>(url, undefined, options);
   }
 
   /**
@@ -151,7 +152,7 @@ export class SubscriptionAPI {
    * }
    * ```
    */
-  async startTrial(request: StartTrialRequest, orgId?: string): Promise<StartTrialResponse> {
+  startTrial(request: StartTrialRequest, orgId?: string, options?: RequestOptions): APIPromise<StartTrialResponse> {
     // Use org endpoint if orgId provided, otherwise use user endpoint
     const url = orgId
       ? `/v1/organizations/${orgId}/company-info`
@@ -161,7 +162,7 @@ export class SubscriptionAPI {
       company_size: request.companySize,
       industry: request.industry,
       phone_number: request.phoneNumber,
-    });
+    }, options);
   }
 
   /**
@@ -175,8 +176,8 @@ export class SubscriptionAPI {
    * }
    * ```
    */
-  async canStartTrial(orgId?: string): Promise<boolean> {
-    const trial = await this.getTrialStatus(orgId);
+  async canStartTrial(orgId?: string, options?: RequestOptions): Promise<boolean> {
+    const trial = await this.getTrialStatus(orgId, options);
     return !trial.hasUsedTrial && !trial.isActive;
   }
 
@@ -197,9 +198,10 @@ export class SubscriptionAPI {
    */
   async isAtLimit(
     resource: 'proxyKeys' | 'teamMembers' | 'filters' | 'prompts' | 'monthlyRequests',
-    orgId?: string
+    orgId?: string,
+    options?: RequestOptions
   ): Promise<boolean> {
-    const status = await this.getStatus(orgId);
+    const status = await this.getStatus(orgId, options);
     const limitMap: Record<string, keyof PlanLimits> = {
       proxyKeys: 'maxProxyKeys',
       teamMembers: 'maxTeamMembers',
@@ -228,9 +230,10 @@ export class SubscriptionAPI {
    */
   async getRemainingQuota(
     resource: 'proxyKeys' | 'teamMembers' | 'filters' | 'prompts' | 'monthlyRequests',
-    orgId?: string
+    orgId?: string,
+    options?: RequestOptions
   ): Promise<number | 'unlimited'> {
-    const status = await this.getStatus(orgId);
+    const status = await this.getStatus(orgId, options);
     const limitMap: Record<string, keyof PlanLimits> = {
       proxyKeys: 'maxProxyKeys',
       teamMembers: 'maxTeamMembers',
@@ -1,4 +1,6 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise, sleep } from '../client';
+import { deriveIdempotencyKey } from '../retry';
+import type { RequestOptions } from '../types';
 
 // ============================================================================
 // Types
@@ -142,8 +144,8 @@ export class VideoAPI {
    * console.log('Job ID:', job.id);
    * ```
    */
-  async create(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    return this.client.post<VideoGenerationResponse>('/v1/videos/generations', request);
+  create(request: VideoGenerationRequest, options?: RequestOptions): APIPromise<VideoGenerationResponse> {
+    return this.client.post<VideoGenerationResponse>('/v1/videos/generations', request, options);
   }
 
   /**
@@ -158,22 +160,22 @@ export class VideoAPI {
    * }
    * ```
    */
-  async getStatus(videoId: string): Promise<VideoGenerationResponse> {
-    return this.client.get<VideoGenerationResponse>(`/v1/videos/generations/${videoId}`);
+  getStatus(videoId: string, options?: RequestOptions): APIPromise<VideoGenerationResponse> {
+    return this.client.get<VideoGenerationResponse>(`/v1/videos/generations/${videoId}`, undefined, options);
   }
 
   /**
    * Download video content
-   * Returns raw video bytes
+   * Returns raw video bytes; the timeout and signal apply until every byte is received
    * 
    * @example
    * ```typescript
-   * const videoBuffer = await mql.video.download('video_abc123');
+   * const videoBuffer = await mql.video.download('video_abc123', { timeout: 10 * 60_000 });
    * // Save to file
    * ```
    */
-  async download(videoId: string): Promise<ArrayBuffer> {
-    return this.client.getBinary(`/v1/videos/${videoId}/content`);
+  download(videoId: string, options?: RequestOptions): APIPromise<ArrayBuffer> {
+    return this.client.getBinary(`/v1/videos/${videoId}/content`, options);
   }
 
   /**
@@ -191,18 +193,18 @@ export class VideoAPI {
    */
   async createAndWait(
     request: VideoGenerationRequest,
-    options?: { pollIntervalMs?: number; maxWaitMs?: number }
+    options?: { pollIntervalMs?: number; maxWaitMs?: number } & RequestOptions
   ): Promise<VideoGenerationResponse> {
     const pollInterval = options?.pollIntervalMs ?? 5000;
     const maxWait = options?.maxWaitMs ?? 600000; // 10 minutes default
     const startTime = Date.now();
 
-    const job = await this.create(request);
+    const job = await this.create(request, options);
     const videoId = job.id;
 
-    while (Date.now() - startTime < maxWait) {
-      await this.sleep(pollInterval);
-      const status = await this.getStatus(videoId);
+    for (let poll = 1; Date.now() - startTime < maxWait; poll++) {
+      await sleep(pollInterval, options?.signal);
+      const status = await this.getStatus(videoId, deriveIdempotencyKey(options, `poll-${poll}`));
 
       if (status.status === 'completed') {
         return status;
@@ -229,10 +231,10 @@ export class VideoAPI {
    */
   async createAndDownload(
     request: VideoGenerationRequest,
-    options?: { pollIntervalMs?: number; maxWaitMs?: number }
+    options?: { pollIntervalMs?: number; maxWaitMs?: number } & RequestOptions
   ): Promise<ArrayBuffer> {
     const video = await this.createAndWait(request, options);
-    return this.download(video.id);
+    return this.download(video.id, deriveIdempotencyKey(options, 'download'));
   }
 
   // ============================================================================
@@ -257,17 +259,18 @@ export class VideoAPI {
    * }
    * ```
    */
-  async queryVideoStatus(
+  queryVideoStatus(
     taskId: string,
-    includeDownloadUrl: boolean = false
-  ): Promise<VideoTaskStatusResponse> {
+    includeDownloadUrl: boolean = false,
+    options?: RequestOptions
+  ): APIPromise<VideoTaskStatusResponse> {
     const params = new URLSearchParams();
     if (includeDownloadUrl) {
       params.append('include_download_url', 'true');
     }
     
     const url = `/v1/videos/query/${taskId}${params.toString() ? '?' + params.toString() : ''}`;
-    return this.client.get<VideoTaskStatusResponse>(url);
+    return this.client.get<VideoTaskStatusResponse>(url, undefined, options);
   }
 
   /**
@@ -287,8 +290,8 @@ export class VideoAPI {
    * const videoBuffer = await response.arrayBuffer();
    * ```
    */
-  async downloadVideo(fileId: string): Promise<VideoDownloadResponse> {
-    return this.client.get<VideoDownloadResponse>(`/v1/videos/download/${fileId}`);
+  downloadVideo(fileId: string, options?: RequestOptions): APIPromise<VideoDownloadResponse> {
+    return this.client.get<VideoDownloadResponse>(`/v1/videos/download/${fileId}`, undefined, options);
   }
 
   /**
@@ -307,14 +310,14 @@ export class VideoAPI {
    */
   async queryAndWait(
     taskId: string,
-    options?: { pollIntervalMs?: number; maxWaitMs?: number }
+    options?: { pollIntervalMs?: number; maxWaitMs?: number } & RequestOptions
   ): Promise<VideoTaskStatusResponse> {
     const pollInterval = options?.pollIntervalMs ?? 5000;
     const maxWait = options?.maxWaitMs ?? 600000; // 10 minutes default
     const startTime = Date.now();
 
-    while (Date.now() - startTime < maxWait) {
-      const status = await this.queryVideoStatus(taskId, true);
+    for (let poll = 1; Date.now() - startTime < maxWait; poll++) {
+      const status = await this.queryVideoStatus(taskId, true, deriveIdempotencyKey(options, `poll-${poll}`));
 
       if (status.status === 'Success') {
         return status;
@@ -325,7 +328,7 @@ export class VideoAPI {
       }
 
       // Still processing, wait and retry
-      await this.sleep(pollInterval);
+      await sleep(pollInterval, options?.signal);
     }
 
     throw new Error(`Video generation timed out after ${maxWait}ms`);
@@ -351,7 +354,7 @@ export class VideoAPI {
    */
   async queryAndDownload(
     taskId: string,
-    options?: { pollIntervalMs?: number; maxWaitMs?: number }
+    options?: { pollIntervalMs?: number; maxWaitMs?: number } & RequestOptions
   ): Promise<VideoDownloadResponse> {
     const status = await this.queryAndWait(taskId, options);
     
@@ -359,7 +362,7 @@ export class VideoAPI {
       throw new Error('No file_id available for completed video');
     }
 
-    return this.downloadVideo(status.file_id);
+    return this.downloadVideo(status.file_id, deriveIdempotencyKey(options, 'download'));
   }
 
   /**
@@ -389,14 +392,10 @@ export class VideoAPI {
    * });
    * ```
    */
-  async createFromImage(request: MinimaxI2VRequest): Promise<MinimaxI2VResponse> {
+  createFromImage(request: MinimaxI2VRequest, options?: RequestOptions): APIPromise<MinimaxI2VResponse> {
     return this.client.post<MinimaxI2VResponse>('/v1/videos/minimax/generations', {
       model: 'MiniMax-Hailuo-2.3',
       ...request,
-    });
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    }, options);
   }
 }
@@ -1,9 +1,10 @@
-import { HttpClient } from '../client';
+import { HttpClient, APIPromise } from '../client';
 import type {
   Webhook,
   WebhookDelivery,
   CreateWebhookRequest,
   UpdateWebhookRequest,
+  RequestOptions,
 } from '../types';
 
 /**
@@ -26,9 +27,9 @@ export class WebhooksAPI {
    * webhooks.forEach(w => console.log(w.url, w.events, w.enabled));
    * ```
    */
-  async list(): Promise<Webhook[]> {
-    const response = await this.client.get<Array<Record<string, unknown>>>('/v1/webhooks');
-    return Array.isArray(response) ? response.map(w => this.transformWebhook(w)) : [];
+  list(options?: RequestOptions): APIPromise<Webhook[]> {
+    return this.client.get<Array<Record<string, unknown>>>('/v1/webhooks', undefined, options)
+      .transform(response => Array.isArray(response) ? response.map(w => this.transformWebhook(w)) : []);
   }
 
   /**
@@ -43,15 +44,15 @@ export class WebhooksAPI {
    * });
    * ```
    */
-  async create(request: CreateWebhookRequest): Promise<Webhook> {
+  create(request: CreateWebhookRequest, options?: RequestOptions): APIPromise<Webhook> {
     const body = {
       url: request.url,
       events: request.events,
       secret: request.secret,
       org_id: request.orgId,
     };
-    const response = await this.client.post<Record<string, unknown>>('/v1/webhooks', body);
-    return this.transformWebhook(response);
+    return this.client.post<Record<string, unknown>>('/v1/webhooks', body, options)
+      .transform(response => this.transformWebhook(response));
   }
 
   /**
@@ -65,15 +66,15 @@ export class WebhooksAPI {
    * });
    * ```
    */
-  async update(webhookId: string, request: UpdateWebhookRequest): Promise<Webhook> {
+  update(webhookId: string, request: UpdateWebhookRequest, options?: RequestOptions): APIPromise<Webhook> {
     const body = {
       url: request.url,
       events: request.events,
       secret: request.secret,
       enabled: request.enabled,
     };
-    const response = await this.client.patch<Record<string, unknown>>(`/v1/webhooks/${webhookId}`, body);
-    return this.transformWebhook(response);
+    return this.client.patch<Record<string, unknown>>(`/v1/webhooks/${webhookId}`, body, options)
+      .transform(response => this.transformWebhook(response));
   }
 
   /**
@@ -84,8 +85,8 @@ export class WebhooksAPI {
    * await mql.webhooks.delete('webhook-id');
    * ```
    */
-  async delete(webhookId: string): Promise<void> {
-    await this.client.delete(`/v1/webhooks/${webhookId}`);
+  delete(webhookId: string, options?: RequestOptions): APIPromise<void> {
+    return this.client.delete<void>(`/v1/webhooks/${webhookId}`, options);
   }
 
   /**
@@ -97,9 +98,9 @@ export class WebhooksAPI {
    * deliveries.forEach(d => console.log(d.success, d.attemptedAt));
    * ```
    */
-  async getDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
-    const response = await this.client.get<Array<Record<string, unknown>>>(`/v1/webhooks/${webhookId}/deliveries`);
-    return Array.isArray(response) ? response.map(d => this.transformDelivery(d)) : [];
+  getDeliveries(webhookId: string, options?: RequestOptions): APIPromise<WebhookDelivery[]> {
+    return this.client.get<Array<Record<string, unknown>>>(`/v1/webhooks/${webhookId}/deliveries`, undefined, options)
+      .transform(response => Array.isArray(response) ? response.map(d => this.transformDelivery(d)) : []);
   }
 
   // ============================================================================
@@ -114,9 +115,9 @@ export class WebhooksAPI {
    * const webhooks = await mql.webhooks.listForOrg('org-id');
    * ```
    */
-  async listForOrg(orgId: string): Promise<Webhook[]> {
-    const response = await this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/webhooks`);
-    return Array.isArray(response) ? response.map(w => this.transformWebhook(w)) : [];
+  listForOrg(orgId: string, options?: RequestOptions): APIPromise<Webhook[]> {
+    return this.client.get<Array<Record<string, unknown>>>(`/v1/organizations/${orgId}/webhooks`, undefined, options)
+      .transform(response => Array.isArray(response) ? response.map(w => this.transformWebhook(w)) : []);
   }
 
   /**
@@ -131,14 +132,14 @@ export class WebhooksAPI {
    * });
    * ```
    */
-  async createForOrg(orgId: string, request: CreateWebhookRequest): Promise<Webhook> {
+  createForOrg(orgId: string, request: CreateWebhookRequest, options?: RequestOptions): APIPromise<Webhook> {
     const body = {
       url: request.url,
       events: request.events,
       secret: request.secret,
     };
-    const response = await this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/webhooks`, body);
-    return this.transformWebhook(response);
+    return this.client.post<Record<string, unknown>>(`/v1/organizations/${orgId}/webhooks`, body, options)
+      .transform(response => this.transformWebhook(response));
   }
 
   /**
@@ -149,8 +150,8 @@ export class WebhooksAPI {
    * await mql.webhooks.deleteForOrg('org-id', 'webhook-id');
    * ```
    */
-  async deleteForOrg(orgId: string, webhookId: string): Promise<void> {
-    await this.client.delete(`/v1/organizations/${orgId}/webhooks/${webhookId}`);
+  deleteForOrg(orgId: string, webhookId: string, options?: RequestOptions): APIPromise<void> {
+    return this.client.delete<void>(`/v1/organizations/${orgId}/webhooks/${webhookId}`, options);
   }
 
   // ============================================================================
@@ -0,0 +1,445 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { APIPromise, HttpClient } from './client';
+import { MQLAPIError, MQLTimeoutError } from './errors';
+import type { MQLClientOptions } from './types';
+
+type Handler = (url: string, init: RequestInit) => Response | Promise<Response>;
+
+/**
+ * HttpClient whose fetch is answered by `handler`; `fetch.mock.calls` records every request
+ */
+function createClient(handler: Handler, options?: MQLClientOptions) {
+  const fetch = vi.fn((input: RequestInfo | URL, init?: RequestInit) => Promise.resolve(handler(String(input), init ?? {})));
+  const client = new HttpClient({
+    baseUrl: 'https://api.test',
+    apiKey: 'mql-key',
+    retryPolicy: { baseDelayMs: 0, jitter: 'none' },
+    ...options,
+    fetch: fetch as typeof globalThis.fetch,
+  });
+  return { client, fetch };
+}
+
+function json(data: unknown, init?: ResponseInit): Response {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: { 'content-type': 'application/json', ...init?.headers },
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('APIPromise', () => {
+  it('resolves to the parsed body', async () => {
+    const { client } = createClient(() => json({ ok: true }));
+    await expect(client.get('/v1/thing')).resolves.toEqual({ ok: true });
+  });
+
+  it('exposes the response alongside the data', async () => {
+    const { client } = createClient(() => json({ ok: true }, { headers: { 'x-mql-request-id': 'req_1' } }));
+
+    const { data, response, status, requestId, headers } = await client.get('/v1/thing').withResponse();
+    expect(data).toEqual({ ok: true });
+    expect(response).toBeInstanceOf(Response);
+    expect(status).toBe(200);
+    expect(requestId).toBe('req_1');
+    expect(headers.get('content-type')).toBe('application/json');
+  });
+
+  it('returns the unread response from asResponse', async () => {
+    const { client } = createClient(() => json({ ok: true }));
+
+    const response = await client.get('/v1/thing').asResponse();
+    expect(response.bodyUsed).toBe(false);
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  it('clears the request timeout once asResponse hands over the body', async () => {
+    vi.useFakeTimers();
+    const { client } = createClient(() => json({ ok: true }), { timeout: 1000 });
+
+    const response = await client.get('/v1/thing').asResponse();
+    expect(vi.getTimerCount()).toBe(0);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  it('transforms the data with access to the response', async () => {
+    const { client } = createClient(() => json({ count: 2 }, { headers: { 'x-total': '10' } }));
+
+    const promise = client.get<{ count: number }>('/v1/thing')
+      .transform((data, response) => ({ count: data.count, total: Number(response.headers.get('x-total')) }));
+    expect(promise).toBeInstanceOf(APIPromise);
+    await expect(promise).resolves.toEqual({ count: 2, total: 10 });
+    expect((await promise.withResponse()).data).toEqual({ count: 2, total: 10 });
+  });
+
+  it('parses the body once however the promise is consumed', async () => {
+    const { client } = createClient(() => json({ ok: true }));
+    const parse = vi.fn((data: unknown) => data);
+
+    const promise = client.get('/v1/thing').transform(parse);
+    await promise;
+    await promise.withResponse();
+    expect(parse).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects instead of throwing when the request cannot be built', async () => {
+    const { client, fetch } = createClient(() => json({}));
+
+    const promise = client.post('/v1/thing', { size: 1n });
+    await expect(promise).rejects.toThrow(TypeError);
+    await expect(client.get('http://[invalid')).rejects.toThrow();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('defers building until the chain runs and turns errors into rejections', async () => {
+    const { client } = createClient(() => json({ value: 1 }));
+    let builds = 0;
+
+    const promise = APIPromise.defer(() => {
+      builds++;
+      return client.get<{ value: number }>('/v1/thing');
+    });
+    expect(builds).toBe(0);
+    await expect(promise).resolves.toEqual({ value: 1 });
+    expect((await promise.withResponse()).status).toBe(200);
+    expect(builds).toBe(1);
+
+    const failing = APIPromise.defer((): APIPromise<unknown> => {
+      throw new Error('invalid input');
+    });
+    await expect(failing).rejects.toThrow('invalid input');
+    await expect(failing.asResponse()).rejects.toThrow('invalid input');
+  });
+});
+
+/**
+ * Answer like fetch does for a request that never completes: reject once its signal aborts
+ */
+function never(init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    const abort = () => reject(new DOMException('This operation was aborted', 'AbortError'));
+    if (init.signal?.aborted) abort();
+    init.signal?.addEventListener('abort', abort);
+  });
+}
+
+/** Response whose headers arrive but whose body never does */
+function stalledBody(): Response {
+  return new Response(new ReadableStream({ start() {} }), { headers: { 'content-type': 'application/json' } });
+}
+
+describe('HttpClient timeouts and cancellation', () => {
+  it('times out an attempt that gets no response', async () => {
+    const { client } = createClient((_, init) => never(init), { timeout: 20, maxRetries: 0 });
+    await expect(client.get('/v1/thing')).rejects.toBeInstanceOf(MQLTimeoutError);
+  });
+
+  it('gives each attempt its own timeout', async () => {
+    let calls = 0;
+    const { client, fetch } = createClient((_, init) => ++calls === 1 ? never(init) : json({ ok: true }), { timeout: 20 });
+
+    await expect(client.get('/v1/thing')).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    expect(fetch.mock.calls[1][1]?.signal?.aborted).toBe(false);
+  });
+
+  it('times out a body that stops arriving after the headers', async () => {
+    const { client } = createClient(() => stalledBody(), { timeout: 20, maxRetries: 0 });
+    await expect(client.get('/v1/thing')).rejects.toBeInstanceOf(MQLTimeoutError);
+    await expect(client.getBinary('/v1/file')).rejects.toBeInstanceOf(MQLTimeoutError);
+  });
+
+  it('rejects with the abort reason and does not retry when the caller aborts', async () => {
+    const { client, fetch } = createClient((_, init) => never(init));
+    const controller = new AbortController();
+    const reason = new Error('user cancelled');
+
+    const promise = client.get('/v1/thing', undefined, { signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    controller.abort(reason);
+
+    await expect(promise).rejects.toBe(reason);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][1]?.signal?.aborted).toBe(true);
+  });
+
+  it('aborts while the body is read', async () => {
+    const { client } = createClient(() => stalledBody());
+    const controller = new AbortController();
+
+    const promise = client.get('/v1/thing', undefined, { signal: controller.signal }).withResponse();
+    setTimeout(() => controller.abort(), 10);
+    const error = await promise.catch((e: unknown) => e);
+    expect(error).not.toBeInstanceOf(MQLTimeoutError);
+    expect((error as Error).name).toBe('AbortError');
+  });
+
+  it('sends nothing when the signal is already aborted', async () => {
+    const { client } = createClient((_, init) => never(init));
+    const reason = new Error('user cancelled');
+
+    await expect(client.post('/v1/thing', {}, { signal: AbortSignal.abort(reason) })).rejects.toBe(reason);
+  });
+});
+
+describe('HttpClient middleware', () => {
+  it('runs middleware in registration order around each attempt', async () => {
+    const order: string[] = [];
+    let calls = 0;
+    const { client, fetch } = createClient((_, init) => {
+      order.push(`fetch ${(init.headers as Record<string, string>)['X-Trace']}`);
+      return ++calls === 1 ? json({}, { status: 503 }) : json({ ok: true });
+    });
+    client
+      .use(async (request, next) => {
+        order.push(`outer ${request.attempt}`);
+        const response = await next({ ...request, headers: { ...request.headers, 'X-Trace': 'outer' } });
+        order.push(`outer ${response.status}`);
+        return response;
+      })
+      .use(async (request, next) => {
+        order.push(`inner ${request.headers['X-Trace']}`);
+        return next({ ...request, headers: { ...request.headers, 'X-Trace': `${request.headers['X-Trace']}+inner` } });
+      });
+
+    await expect(client.get('/v1/thing')).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(order).toEqual([
+      'outer 1', 'inner outer', 'fetch outer+inner', 'outer 503',
+      'outer 2', 'inner outer', 'fetch outer+inner', 'outer 200',
+    ]);
+  });
+
+  it('lets middleware answer without calling fetch', async () => {
+    const { client, fetch } = createClient(() => json({ from: 'network' }));
+    client.use(async () => json({ from: 'middleware' }));
+
+    await expect(client.get('/v1/thing')).resolves.toEqual({ from: 'middleware' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('surfaces non-2xx responses as MQLAPIError', async () => {
+    const { client } = createClient(() => json({ error: 'Not found' }, { status: 404 }));
+
+    const error = await client.get('/v1/thing').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MQLAPIError);
+    expect((error as MQLAPIError).status).toBe(404);
+  });
+});
+
+/** Authorization header sent with a request */
+function authorization(init: RequestInit): string | undefined {
+  return (init.headers as Record<string, string>).Authorization;
+}
+
+describe('HttpClient tokenProvider', () => {
+  it('refreshes the token once for concurrent requests rejected with 401', async () => {
+    const tokenProvider = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) => forceRefresh ? 'fresh' : 'expired');
+    const { client, fetch } = createClient(
+      (_, init) => authorization(init) === 'Bearer fresh' ? json({ ok: true }) : json({ error: 'expired' }, { status: 401 }),
+      { apiKey: undefined, tokenProvider }
+    );
+
+    const results = await Promise.all([client.get('/v1/a'), client.get('/v1/b'), client.get('/v1/c')]);
+    expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+    expect(tokenProvider.mock.calls.map(([context]) => context.forceRefresh)).toEqual([false, true]);
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it('gives up after one refresh when the new token is rejected too', async () => {
+    const tokenProvider = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) => forceRefresh ? 'fresh' : 'expired');
+    const { client, fetch } = createClient(() => json({ error: 'unauthorized' }, { status: 401 }), { apiKey: undefined, tokenProvider });
+
+    const error = await client.get('/v1/thing').catch((e: unknown) => e);
+    expect((error as MQLAPIError).status).toBe(401);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(tokenProvider).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects with the provider error when the refresh fails, and asks again next time', async () => {
+    let fail = true;
+    const tokenProvider = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) => {
+      if (forceRefresh && fail) throw new Error('session expired');
+      return forceRefresh ? 'fresh' : 'expired';
+    });
+    const { client, fetch } = createClient(
+      (_, init) => authorization(init) === 'Bearer fresh' ? json({ ok: true }) : json({ error: 'expired' }, { status: 401 }),
+      { apiKey: undefined, tokenProvider }
+    );
+
+    await expect(client.get('/v1/thing')).rejects.toThrow('session expired');
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    fail = false;
+    await expect(client.get('/v1/thing')).resolves.toEqual({ ok: true });
+  });
+
+  it('shares the refresh between views with different credentials', async () => {
+    const tokenProvider = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) => forceRefresh ? 'fresh' : 'expired');
+    const { client } = createClient(
+      (_, init) => authorization(init) === 'Bearer fresh' ? json({ ok: true }) : json({ error: 'expired' }, { status: 401 }),
+      { apiKey: undefined, tokenProvider }
+    );
+    const management = client.withCredential('token');
+
+    await Promise.all([client.get('/v1/a'), management.get('/v1/b')]);
+    expect(tokenProvider.mock.calls.map(([context]) => context.forceRefresh)).toEqual([false, true]);
+  });
+});
+
+describe('HttpClient credentials', () => {
+  const both = { apiKey: 'mql-key', token: 'jwt' };
+
+  it('sends the credential of the view, falling back to the one configured', async () => {
+    const { client, fetch } = createClient(() => json({}), both);
+    const { client: keyOnly, fetch: keyOnlyFetch } = createClient(() => json({}), { apiKey: 'mql-key' });
+
+    await client.withCredential('apiKey').get('/v1/a');
+    await client.withCredential('token').get('/v1/b');
+    await keyOnly.withCredential('token').get('/v1/c');
+    expect(authorization(fetch.mock.calls[0][1] ?? {})).toBe('Bearer mql-key');
+    expect(authorization(fetch.mock.calls[1][1] ?? {})).toBe('Bearer jwt');
+    expect(authorization(keyOnlyFetch.mock.calls[0][1] ?? {})).toBe('Bearer mql-key');
+  });
+
+  it('keeps views isolated from each other and from per-request overrides', async () => {
+    const { client, fetch } = createClient(() => json({}), both);
+    const inference = client.withCredential('apiKey');
+    const management = client.withCredential('token');
+
+    await inference.get('/v1/a', undefined, { credential: 'token' });
+    await inference.get('/v1/b');
+    await management.get('/v1/c');
+    await client.get('/v1/d');
+    expect(fetch.mock.calls.map(([, init]) => authorization(init ?? {}))).toEqual([
+      'Bearer jwt', 'Bearer mql-key', 'Bearer jwt', 'Bearer jwt',
+    ]);
+  });
+
+  it('leaves an explicit Authorization header alone', async () => {
+    const { client, fetch } = createClient(() => json({}), both);
+
+    await client.withCredential('apiKey').get('/v1/a', undefined, { headers: { authorization: 'Bearer other' } });
+    const headers = fetch.mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers.authorization).toBe('Bearer other');
+    expect(headers.Authorization).toBeUndefined();
+  });
+});
+
+describe('HttpClient idempotency keys', () => {
+  /** Fails the first attempt with `status`, then succeeds */
+  function failOnce(status: number): Handler {
+    let calls = 0;
+    return () => ++calls === 1 ? json({ error: 'failed' }, { status }) : json({ ok: true });
+  }
+
+  const keys = (fetch: ReturnType<typeof createClient>['fetch']) =>
+    fetch.mock.calls.map(([, init]) => (init?.headers as Record<string, string>)['Idempotency-Key']);
+
+  it('reuses one generated key across the retries of a POST', async () => {
+    const { client, fetch } = createClient(failOnce(503));
+
+    await expect(client.post('/v1/thing', {})).resolves.toEqual({ ok: true });
+    const [first, second] = keys(fetch);
+    expect(first).toMatch(/\S+/);
+    expect(second).toBe(first);
+  });
+
+  it('sends an explicit key unchanged on every attempt', async () => {
+    const { client, fetch } = createClient(failOnce(500));
+
+    await client.post('/v1/thing', {}, { idempotencyKey: 'order-1' });
+    expect(keys(fetch)).toEqual(['order-1', 'order-1']);
+  });
+
+  it('does not add a key to GET requests', async () => {
+    const { client, fetch } = createClient(() => json({}));
+
+    await client.get('/v1/thing');
+    expect(keys(fetch)).toEqual([undefined]);
+  });
+
+  it('retries a POST without a key only on 429', async () => {
+    const { client, fetch } = createClient(failOnce(503), { generateIdempotencyKeys: false });
+    await expect(client.post('/v1/thing', {})).rejects.toMatchObject({ status: 503 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    const { client: limited, fetch: limitedFetch } = createClient(failOnce(429), { generateIdempotencyKeys: false });
+    await expect(limited.post('/v1/thing', {})).resolves.toEqual({ ok: true });
+    expect(limitedFetch).toHaveBeenCalledTimes(2);
+    expect(keys(limitedFetch)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('HttpClient streams', () => {
+  /**
+   * SSE body sending `events` every `intervalMs`, then stalling unless `end` is
+   * set. Like fetch, it errors once the request signal aborts.
+   */
+  function sseBody(events: string[], intervalMs: number, end = true, signal?: AbortSignal | null): Response {
+    const encoder = new TextEncoder();
+    let sent = 0;
+    return new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        signal?.addEventListener('abort', () => controller.error(new DOMException('This operation was aborted', 'AbortError')));
+      },
+      async pull(controller) {
+        if (sent === events.length) {
+          if (end) controller.close();
+          return new Promise(() => {});
+        }
+        await new Promise(resolve => setTimeout(resolve, intervalMs));
+        controller.enqueue(encoder.encode(`data: ${events[sent++]}\n\n`));
+      },
+    }), { headers: { 'content-type': 'text/event-stream' } });
+  }
+
+  async function collectEvents(events: AsyncIterable<{ data: string }>): Promise<string[]> {
+    const data: string[] = [];
+    for await (const event of events) {
+      data.push(event.data);
+    }
+    return data;
+  }
+
+  it('lets a stream that keeps sending outlive the request timeout', async () => {
+    const { client } = createClient(() => sseBody(['1', '2', '3', '4', '[DONE]'], 15), { timeout: 40, streamIdleTimeout: 1000 });
+    await expect(collectEvents(client.stream('/v1/chat/completions', {}))).resolves.toEqual(['1', '2', '3', '4']);
+  });
+
+  it('fails a stream that goes idle', async () => {
+    const { client } = createClient(() => sseBody(['1'], 0, false), { streamIdleTimeout: 30 });
+
+    const received: string[] = [];
+    const error = await (async () => {
+      for await (const event of client.stream('/v1/chat/completions', {})) {
+        received.push(event.data);
+      }
+    })().catch((e: unknown) => e);
+
+    expect(received).toEqual(['1']);
+    expect(error).toBeInstanceOf(MQLTimeoutError);
+  });
+
+  it('aborts a stream while it waits for the next chunk', async () => {
+    const { client } = createClient((_, init) => sseBody(['1'], 0, false, init.signal));
+    const controller = new AbortController();
+    const reason = new Error('user cancelled');
+
+    const received: string[] = [];
+    const error = await (async () => {
+      for await (const event of client.stream('/v1/chat/completions', {}, { signal: controller.signal })) {
+        received.push(event.data);
+        controller.abort(reason);
+      }
+    })().catch((e: unknown) => e);
+
+    expect(received).toEqual(['1']);
+    expect(error).toBe(reason);
+  });
+});
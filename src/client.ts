@@ -1,44 +1,260 @@
-import type { MQLClientOptions, MQLError } from './types';
+import type {
+  MQLClientOptions,
+  MQLError,
+  MQLMiddleware,
+  MQLRequest,
+  RequestOptions,
+  RetryContext,
+  TokenProvider,
+  MQLCredential,
+} from './types';
+import {
+  resolveRetryPolicy,
+  isRetryable,
+  isMutatingMethod,
+  generateIdempotencyKey,
+  backoffDelay,
+  parseRetryAfter,
+  type ResolvedRetryPolicy,
+} from './retry';
+import { MQLAPIError, MQLConnectionError, MQLTimeoutError, errorBodyFrom } from './errors';
+import { parseSSE, type ServerSentEvent } from './lib/sse';
+
+export { MQLAPIError };
 
 /**
- * Custom error class for MQL API errors
+ * Parsed response data together with raw HTTP response details
  */
-export class MQLAPIError extends Error {
-  public readonly status: number;
-  public readonly code?: string;
-  public readonly details?: Record<string, unknown>;
+export interface APIResponseWithData<T> {
+  /** Parsed response data (same value the API method resolves to) */
+  data: T;
+  /** Raw fetch Response (body already consumed) */
+  response: Response;
+  /** Response headers (rate limits, `x-mql-*` gateway headers, ...) */
+  headers: Headers;
+  /** HTTP status code */
+  status: number;
+  /** Gateway request ID from the `x-mql-request-id` header */
+  requestId: string | null;
+}
+
+/**
+ * Responses from `execute` whose body has not been read yet, with the
+ * timeout signal of their request and the function releasing it
+ */
+const pendingBodies = new WeakMap<Response, { signal: AbortSignal; callerSignal?: AbortSignal; release: () => void }>();
+
+/**
+ * Hand the unread body of a response from `execute` over to the caller,
+ * clearing its request timeout and abort listener
+ */
+function releaseBody(response: Response): void {
+  const guard = pendingBodies.get(response);
+  if (guard) {
+    pendingBodies.delete(response);
+    guard.release();
+  }
+}
+
+/**
+ * Wraps the sending of a request, e.g. to serve its response from a cache.
+ * `send` performs the request; the returned Response is parsed as usual.
+ * `identity` names the base URL and credential the request is sent with.
+ */
+export type ResponseInterceptor = (send: () => Promise<Response>, identity: string) => Promise<Response>;
+
+/**
+ * Promise returned by every API method backed by a single HTTP request.
+ *
+ * Awaiting it yields the parsed data as usual; `withResponse()` and
+ * `asResponse()` give access to the underlying HTTP response.
+ *
+ * @example
+ * ```typescript
+ * const { data, headers, requestId } = await mql.proxyKeys.list().withResponse();
+ * console.log(headers.get('x-ratelimit-remaining'), requestId);
+ *
+ * const response = await mql.audio.speech({ ... }).asResponse();
+ * ```
+ */
+export class APIPromise<T> extends Promise<T> {
+  private parsed?: Promise<T>;
+
+  constructor(
+    private readonly responsePromise: Promise<Response>,
+    private readonly parse: (response: Response) => Promise<T>
+  ) {
+    super(resolve => resolve(null as unknown as T));
+  }
 
-  constructor(message: string, status: number, code?: string, details?: Record<string, unknown>) {
-    super(message);
-    this.name = 'MQLAPIError';
-    this.status = status;
-    this.code = code;
-    this.details = details;
+  /**
+   * APIPromise for a request prepared by `build`, so that errors thrown while
+   * preparing it (e.g. invalid input) reject instead of throwing synchronously
+   */
+  static defer<T>(build: () => APIPromise<T>): APIPromise<T> {
+    // Wrapped so the chain does not await (and parse) the inner promise
+    const request = Promise.resolve().then(() => ({ promise: build() }));
+    return new APIPromise<T>(
+      // Not asResponse(), which would release the body from the request timeout
+      request.then(({ promise }) => promise.responsePromise),
+      () => request.then(({ promise }) => promise)
+    );
+  }
+
+  /**
+   * Derive a new APIPromise whose data is transformed from this one's
+   */
+  transform<U>(fn: (data: T, response: Response) => U | Promise<U>): APIPromise<U> {
+    return new APIPromise<U>(
+      this.responsePromise,
+      async (response) => fn(await this.parse(response), response)
+    );
+  }
+
+  /**
+   * Resolve to the raw Response without parsing the body. The request's
+   * timeout and signal stop applying once the headers have arrived: reading
+   * (or cancelling) the body is up to the caller.
+   */
+  asResponse(): Promise<Response> {
+    return this.responsePromise.then(response => {
+      releaseBody(response);
+      return response;
+    });
   }
 
-  static fromResponse(error: MQLError, status: number): MQLAPIError {
-    return new MQLAPIError(error.error, status, error.code, error.details);
+  /**
+   * Resolve to the parsed data together with the raw response and its headers
+   */
+  async withResponse(): Promise<APIResponseWithData<T>> {
+    const [data, response] = await Promise.all([this.getParsed(), this.responsePromise]);
+    return {
+      data,
+      response,
+      headers: response.headers,
+      status: response.status,
+      requestId: response.headers.get('x-mql-request-id'),
+    };
   }
+
+  private getParsed(): Promise<T> {
+    if (!this.parsed) {
+      this.parsed = this.responsePromise.then(response => this.parse(response));
+    }
+    return this.parsed;
+  }
+
+  override then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.getParsed().then(onfulfilled, onrejected);
+  }
+
+  override catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.getParsed().catch(onrejected);
+  }
+
+  override finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.getParsed().finally(onfinally);
+  }
+}
+
+/**
+ * Sleep for the given duration, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Error to reject with when a caller's AbortSignal fires
+ */
+function abortError(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error) {
+    return signal.reason;
+  }
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Error for an in-stream `error` event. The payload carries no HTTP status of
+ * its own unless the server includes one.
+ */
+function streamError(data: string): MQLAPIError {
+  let parsed: Record<string, unknown> | undefined;
+  try {
+    parsed = JSON.parse(data) as Record<string, unknown>;
+  } catch {
+    // Plain-text error message
+  }
+  const body = errorBodyFrom(parsed) ?? { error: data || 'Stream error' };
+  const status = typeof parsed?.status === 'number' ? parsed.status : 500;
+  return MQLAPIError.fromResponse(body, status);
+}
+
+/**
+ * State shared between a client and the credential-scoped views derived from it
+ */
+interface SharedState {
+  middleware: MQLMiddleware[];
+  token: { latest?: string; request?: { promise: Promise<string>; forceRefresh: boolean } };
 }
 
 /**
  * Internal HTTP client for making API requests
  */
 export class HttpClient {
+  private readonly options: MQLClientOptions;
   private readonly baseUrl: string;
   private readonly apiKey?: string;
   private readonly token?: string;
   private readonly timeout: number;
-  private readonly maxRetries: number;
+  private readonly streamIdleTimeout: number;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+  private readonly onRetry?: (context: RetryContext) => void;
   private readonly fetchFn: typeof fetch;
-
-  constructor(options: MQLClientOptions = {}) {
+  private readonly generateIdempotencyKeys: boolean;
+  private readonly defaultHeaders: Record<string, string>;
+  private readonly tokenProvider?: TokenProvider;
+  private readonly credential?: MQLCredential;
+  private readonly shared: SharedState;
+
+  constructor(options: MQLClientOptions = {}, scope?: { credential: MQLCredential; shared: SharedState }) {
+    this.options = { ...options };
     this.baseUrl = (options.baseUrl || 'https://api.metriqual.com').replace(/\/$/, '');
     this.apiKey = options.apiKey;
     this.token = options.token;
     this.timeout = options.timeout || 30000;
-    this.maxRetries = options.maxRetries || 3;
+    this.streamIdleTimeout = options.streamIdleTimeout || this.timeout;
+    this.retryPolicy = resolveRetryPolicy(options.retryPolicy, options.maxRetries ?? 3);
+    this.onRetry = options.onRetry;
     this.fetchFn = options.fetch || globalThis.fetch;
+    this.generateIdempotencyKeys = options.generateIdempotencyKeys ?? true;
+    this.defaultHeaders = { ...options.defaultHeaders };
+    this.tokenProvider = options.tokenProvider;
+    this.credential = scope?.credential;
+    this.shared = scope?.shared ?? { middleware: [...(options.middleware ?? [])], token: {} };
 
     if (!this.fetchFn) {
       throw new Error(
@@ -47,20 +263,72 @@ export class HttpClient {
     }
   }
 
+  /**
+   * Options this client was created with, including middleware added via `use()`
+   */
+  public getOptions(): MQLClientOptions {
+    return { ...this.options, middleware: [...this.shared.middleware] };
+  }
+
+  /**
+   * Derive a client that inherits every option of this one, with overrides applied.
+   * `defaultHeaders` are merged; any other option given replaces the inherited value.
+   */
+  public withOptions(overrides: MQLClientOptions): HttpClient {
+    const base = this.getOptions();
+    return new HttpClient({
+      ...base,
+      ...overrides,
+      defaultHeaders: { ...base.defaultHeaders, ...overrides.defaultHeaders },
+    });
+  }
+
+  /**
+   * View of this client that prefers the given credential. Middleware and
+   * token refresh state are shared with this client.
+   */
+  public withCredential(credential: MQLCredential): HttpClient {
+    return new HttpClient(this.options, { credential, shared: this.shared });
+  }
+
   /**
    * Update authentication
    */
   public updateAuth(options: { apiKey?: string; token?: string }): HttpClient {
-    return new HttpClient({
-      baseUrl: this.baseUrl,
+    return this.withOptions({
       apiKey: options.apiKey ?? this.apiKey,
       token: options.token ?? this.token,
-      timeout: this.timeout,
-      maxRetries: this.maxRetries,
-      fetch: this.fetchFn,
     });
   }
 
+  /**
+   * Append a middleware to the chain run around every HTTP request
+   */
+  public use(middleware: MQLMiddleware): this {
+    this.shared.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Send a request through the middleware chain and then fetch
+   */
+  private dispatch(request: MQLRequest): Promise<Response> {
+    const run = (index: number, current: MQLRequest): Promise<Response> => {
+      const middleware = this.shared.middleware[index];
+      if (!middleware) {
+        return this.fetchFn(current.url, {
+          method: current.method,
+          headers: current.headers,
+          body: current.body,
+          signal: current.signal,
+        });
+      }
+      return middleware(current, next => run(index + 1, next));
+    };
+
+    return run(0, request);
+  }
+
   /**
    * Build headers for requests
    */
@@ -70,15 +338,8 @@ export class HttpClient {
       'Accept': 'application/json',
     };
 
-    // Use apiKey (proxy key) for Bearer auth
-    if (this.apiKey) {
-      headers['Authorization'] = `Bearer ${this.apiKey}`;
-    }
-
-    // Use token (Supabase JWT) for authenticated user operations
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
+    // Authorization is added per attempt by authorize()
+    Object.assign(headers, this.defaultHeaders);
 
     if (additionalHeaders) {
       Object.assign(headers, additionalHeaders);
@@ -87,6 +348,48 @@ export class HttpClient {
     return headers;
   }
 
+  /**
+   * Headers contributed by per-request options. Mutating requests get an
+   * `Idempotency-Key`, generated once here so every retry reuses it.
+   */
+  private optionHeaders(method: string, options?: RequestOptions): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const idempotencyKey = options?.idempotencyKey
+      ?? (this.generateIdempotencyKeys && isMutatingMethod(this.retryPolicy, method) ? generateIdempotencyKey() : undefined);
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+    return Object.assign(headers, options?.headers);
+  }
+
+  /**
+   * Create a signal that aborts on timeout or when the caller's signal aborts.
+   * `clearTimer` stops the timeout only; `release` also detaches the caller's signal.
+   */
+  private timeoutSignal(
+    timeout: number,
+    signal?: AbortSignal
+  ): { signal: AbortSignal; clearTimer: () => void; release: () => void } {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    return {
+      signal: controller.signal,
+      clearTimer: () => clearTimeout(timeoutId),
+      release: () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      },
+    };
+  }
+
   /**
    * Build full URL with query parameters
    */
@@ -105,298 +408,519 @@ export class HttpClient {
   }
 
   /**
-   * Make a request with retry logic
+   * Run a request through the shared pipeline: per-attempt timeout, middleware,
+   * retries and error construction. Used by every transport.
+   *
+   * Resolves once response headers arrive. The timeout keeps running and the
+   * caller's signal stays linked until `release` is invoked, so reading the
+   * body remains bounded and cancellable; `signal` aborts when either fires.
+   * Streams call `clearTimer` and bound each read by the idle timeout instead.
    */
-  private async requestWithRetry<T>(
-    method: string,
-    path: string,
-    options: {
-      body?: unknown;
-      params?: Record<string, string | number | boolean | undefined>;
-      headers?: Record<string, string>;
-      retryCount?: number;
-    } = {}
-  ): Promise<T> {
-    const { body, params, headers: additionalHeaders, retryCount = 0 } = options;
-    const url = this.buildUrl(path, params);
-    const headers = this.buildHeaders(additionalHeaders);
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+  private async send(
+    request: Omit<MQLRequest, 'signal' | 'attempt'>,
+    options?: RequestOptions
+  ): Promise<{ response: Response; signal: AbortSignal; clearTimer: () => void; release: () => void }> {
+    let retries = 0;
+    let staleToken: string | undefined;
+    let refreshedToken = false;
+
+    for (let attempt = 1; ; attempt++) {
+      const { headers, token } = await this.authorize(request.headers, options, staleToken);
+      const timeout = this.timeoutSignal(options?.timeout ?? this.timeout, options?.signal);
+      let error: MQLAPIError;
+      let responseHeaders: Headers | undefined;
+
+      try {
+        const response = await this.dispatch({ ...request, headers, signal: timeout.signal, attempt });
+
+        if (response.ok) {
+          return { response, signal: timeout.signal, clearTimer: timeout.clearTimer, release: timeout.release };
+        }
 
-    try {
-      const response = await this.fetchFn(url, {
-        method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined,
-        signal: controller.signal,
-      });
+        timeout.release();
+        error = await this.errorFromResponse(response);
+        responseHeaders = response.headers;
+      } catch (err) {
+        timeout.release();
 
-      clearTimeout(timeoutId);
+        if (err instanceof MQLAPIError) {
+          throw err;
+        }
 
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({ error: response.statusText }));
-        
-        // Retry on 5xx errors
-        if (response.status >= 500 && retryCount < this.maxRetries) {
-          const delay = Math.min(1000 * Math.pow(2, retryCount), 10000);
-          await this.sleep(delay);
-          return this.requestWithRetry<T>(method, path, { ...options, retryCount: retryCount + 1 });
+        // Cancelled by the caller rather than timed out
+        if (options?.signal?.aborted) {
+          throw abortError(options.signal);
         }
 
-        throw MQLAPIError.fromResponse(errorBody as MQLError, response.status);
+        if (err instanceof Error && err.name === 'AbortError') {
+          error = new MQLTimeoutError();
+        } else {
+          error = new MQLConnectionError(err instanceof Error ? err.message : 'Unknown error occurred', { cause: err });
+        }
       }
 
-      // Handle 204 No Content
-      if (response.status === 204) {
-        return {} as T;
+      // An expired provider token gets one immediate retry with a fresh one,
+      // outside the retry budget
+      if (error.status === 401 && token !== undefined && !refreshedToken) {
+        refreshedToken = true;
+        staleToken = token;
+        continue;
       }
+      staleToken = undefined;
 
-      return await response.json();
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof MQLAPIError) {
+      retries++;
+      const delayMs = this.getRetryDelay({ ...request, headers }, retries, error, responseHeaders, options?.maxRetries);
+      if (delayMs === null) {
         throw error;
       }
 
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new MQLAPIError('Request timeout', 408);
-        }
+      await sleep(delayMs, options?.signal);
+    }
+  }
+
+  /**
+   * Add the Authorization header for the credential this request should use,
+   * unless the caller set it explicitly. Returns the provider token used, if any.
+   */
+  private async authorize(
+    headers: Record<string, string>,
+    options: RequestOptions | undefined,
+    staleToken?: string
+  ): Promise<{ headers: Record<string, string>; token?: string }> {
+    const explicit = Object.keys(options?.headers ?? {}).some(name => name.toLowerCase() === 'authorization');
+    const credential = this.resolveCredential(options?.credential);
+    if (explicit || !credential) {
+      return { headers };
+    }
+
+    if (credential === 'apiKey') {
+      return { headers: { ...headers, Authorization: `Bearer ${this.apiKey}` } };
+    }
+
+    if (!this.tokenProvider) {
+      return { headers: { ...headers, Authorization: `Bearer ${this.token}` } };
+    }
+
+    const token = await this.getToken(staleToken);
+    return { headers: { ...headers, Authorization: `Bearer ${token}` }, token };
+  }
+
+  /**
+   * Pick the credential for a request: the per-request override, else this
+   * client's scope, else the user token. Falls back to whichever is configured.
+   */
+  private resolveCredential(override?: MQLCredential): MQLCredential | undefined {
+    const hasToken = this.token !== undefined || this.tokenProvider !== undefined;
+    const hasApiKey = this.apiKey !== undefined;
+    const preferred = override ?? this.credential ?? 'token';
+
+    if (preferred === 'apiKey') {
+      return hasApiKey ? 'apiKey' : hasToken ? 'token' : undefined;
+    }
+    return hasToken ? 'token' : hasApiKey ? 'apiKey' : undefined;
+  }
+
+  /**
+   * Get a token from `tokenProvider`, sharing one in-flight call between
+   * concurrent requests. Passing the token that was just rejected forces a
+   * refresh, unless another request already replaced it.
+   */
+  private getToken(staleToken?: string): Promise<string> {
+    const state = this.shared.token;
+    if (staleToken !== undefined && state.latest !== undefined && state.latest !== staleToken) {
+      return Promise.resolve(state.latest);
+    }
+
+    const forceRefresh = staleToken !== undefined;
+    const inFlight = state.request;
+    if (inFlight && (inFlight.forceRefresh || !forceRefresh)) {
+      return inFlight.promise;
+    }
 
-        // Retry on network errors
-        if (retryCount < this.maxRetries) {
-          const delay = Math.min(1000 * Math.pow(2, retryCount), 10000);
-          await this.sleep(delay);
-          return this.requestWithRetry<T>(method, path, { ...options, retryCount: retryCount + 1 });
+    const promise = Promise.resolve()
+      .then(() => this.tokenProvider!({ forceRefresh }))
+      .then(token => {
+        state.latest = token;
+        return token;
+      })
+      .finally(() => {
+        if (state.request?.promise === promise) {
+          state.request = undefined;
         }
+      });
+
+    state.request = { promise, forceRefresh };
+    return promise;
+  }
+
+  /**
+   * Run a request whose body is read in one go (JSON, binary, multipart).
+   * The body must be read with `readBody`, which keeps it under the timeout.
+   */
+  private async execute(
+    request: Omit<MQLRequest, 'signal' | 'attempt'>,
+    options?: RequestOptions
+  ): Promise<Response> {
+    const { response, signal, release } = await this.send(request, options);
+    pendingBodies.set(response, { signal, callerSignal: options?.signal, release });
+    return response;
+  }
 
-        throw new MQLAPIError(error.message, 0);
+  /**
+   * Read the body of a response from `execute`, failing with a timeout or
+   * abort error if it does not arrive in time, then release the request
+   */
+  private async readBody<T>(response: Response, read: (response: Response) => Promise<T>): Promise<T> {
+    const guard = pendingBodies.get(response);
+    if (!guard) {
+      return read(response);
+    }
+    pendingBodies.delete(response);
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        reject(guard.callerSignal?.aborted ? abortError(guard.callerSignal) : new MQLTimeoutError());
+        // Free the connection of a stalled body
+        response.body?.cancel().catch(() => {});
+      };
+      if (guard.signal.aborted) {
+        onAbort();
+      } else {
+        guard.signal.addEventListener('abort', onAbort, { once: true });
       }
+    });
+
+    try {
+      return await Promise.race([read(response), aborted]);
+    } finally {
+      guard.signal.removeEventListener('abort', onAbort!);
+      guard.release();
+    }
+  }
+
+  /**
+   * Build an MQLAPIError from a non-2xx response, whatever its content type
+   */
+  private async errorFromResponse(response: Response): Promise<MQLAPIError> {
+    const text = await response.text().catch(() => '');
+    let body: MQLError | undefined;
+
+    try {
+      body = errorBodyFrom(JSON.parse(text));
+    } catch {
+      // Not JSON, fall through to the raw text
+    }
+
+    body ??= { error: text.trim().slice(0, 500) || response.statusText || `HTTP ${response.status}` };
+    return MQLAPIError.fromResponse(body, response.status, response.headers);
+  }
+
+  /**
+   * Decide whether a failed attempt is retried, returning the delay before
+   * the next attempt or null to give up
+   */
+  private getRetryDelay(
+    request: Pick<MQLRequest, 'method' | 'url' | 'headers'>,
+    attempt: number,
+    error: MQLAPIError,
+    headers?: Headers,
+    maxRetries?: number
+  ): number | null {
+    const policy = this.retryPolicy;
+    if (attempt > (maxRetries ?? policy.maxRetries)) {
+      return null;
+    }
+
+    let delayMs = backoffDelay(policy, attempt);
+
+    if (policy.respectRetryAfter) {
+      const requested = parseRetryAfter(headers);
+      if (requested !== null) {
+        // Retrying sooner than the server asked would only be rejected again
+        if (requested > policy.maxRetryAfterMs) {
+          return null;
+        }
+        delayMs = requested;
+      }
+    }
+
+    const { method, url } = request;
+    const idempotencyKey = Object.entries(request.headers)
+      .find(([name]) => name.toLowerCase() === 'idempotency-key')?.[1];
+    const context: RetryContext = { method, url, attempt, delayMs, status: error.status, error, headers, idempotencyKey };
+    const retry = policy.shouldRetry?.(context) ?? isRetryable(policy, method, error.status, !!idempotencyKey);
+    if (!retry) {
+      return null;
+    }
+
+    this.onRetry?.(context);
+    return delayMs;
+  }
+
+  /**
+   * Parse a successful response body (JSON, or text for non-JSON content types)
+   */
+  private async parseBody<T>(response: Response): Promise<T> {
+    // Handle 204 No Content
+    if (response.status === 204) {
+      return {} as T;
+    }
+
+    const contentType = response.headers.get('content-type');
+    if (contentType && !contentType.includes('json')) {
+      return (await response.text()) as unknown as T;
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Wrap a pending JSON request in an APIPromise
+   */
+  private jsonPromise<T>(responsePromise: Promise<Response>): APIPromise<T> {
+    return new APIPromise<T>(responsePromise, response => this.readBody(response, r => this.parseBody<T>(r)));
+  }
 
-      throw new MQLAPIError('Unknown error occurred', 0);
+  /**
+   * Send a JSON request through the pipeline
+   */
+  private jsonRequest<T>(
+    method: string,
+    path: string,
+    request: {
+      body?: unknown;
+      params?: Record<string, string | number | boolean | undefined>;
+      options?: RequestOptions;
+      intercept?: ResponseInterceptor;
     }
+  ): APIPromise<T> {
+    const { body, params, options, intercept } = request;
+    const send = () => this.execute({
+      url: this.buildUrl(path, params),
+      method,
+      headers: this.buildHeaders(this.optionHeaders(method, options)),
+      body: body ? JSON.stringify(body) : undefined,
+      kind: 'json',
+    }, options);
+    // Building the request inside the chain turns a bad URL or body into a rejection
+    const responsePromise = Promise.resolve()
+      .then(() => intercept ? this.identity(options).then(identity => intercept(send, identity)) : send());
+    return this.jsonPromise<T>(responsePromise);
   }
 
   /**
-   * Sleep helper for retry delays
+   * Base URL and Authorization header a request is sent with, so that
+   * responses cached for one tenant are never served to another
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async identity(options?: RequestOptions): Promise<string> {
+    const explicit = Object.entries(options?.headers ?? {})
+      .find(([name]) => name.toLowerCase() === 'authorization')?.[1];
+    const authorization = explicit ?? (await this.authorize({}, options)).headers.Authorization ?? '';
+    return `${this.baseUrl}\n${authorization}`;
   }
 
   /**
    * GET request
    */
-  async get<T>(
+  get<T>(
     path: string,
     params?: Record<string, string | number | boolean | undefined>,
-    headers?: Record<string, string>
-  ): Promise<T> {
-    return this.requestWithRetry<T>('GET', path, { params, headers });
+    options?: RequestOptions
+  ): APIPromise<T> {
+    return this.jsonRequest<T>('GET', path, { params, options });
   }
 
   /**
    * POST request
    */
-  async post<T>(
+  post<T>(
     path: string,
     body?: unknown,
-    headers?: Record<string, string>
-  ): Promise<T> {
-    return this.requestWithRetry<T>('POST', path, { body, headers });
+    options?: RequestOptions,
+    intercept?: ResponseInterceptor
+  ): APIPromise<T> {
+    return this.jsonRequest<T>('POST', path, { body, options, intercept });
   }
 
   /**
    * PATCH request
    */
-  async patch<T>(
+  patch<T>(
     path: string,
     body?: unknown,
-    headers?: Record<string, string>
-  ): Promise<T> {
-    return this.requestWithRetry<T>('PATCH', path, { body, headers });
+    options?: RequestOptions
+  ): APIPromise<T> {
+    return this.jsonRequest<T>('PATCH', path, { body, options });
   }
 
   /**
    * PUT request
    */
-  async put<T>(
+  put<T>(
     path: string,
     body?: unknown,
-    headers?: Record<string, string>
-  ): Promise<T> {
-    return this.requestWithRetry<T>('PUT', path, { body, headers });
+    options?: RequestOptions
+  ): APIPromise<T> {
+    return this.jsonRequest<T>('PUT', path, { body, options });
   }
 
   /**
    * DELETE request
    */
-  async delete<T>(path: string, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithRetry<T>('DELETE', path, { headers });
+  delete<T>(path: string, options?: RequestOptions): APIPromise<T> {
+    return this.jsonRequest<T>('DELETE', path, { options });
   }
 
   /**
    * POST request returning binary data (for audio/speech)
    */
-  async postBinary(
+  postBinary(
     path: string,
     body?: unknown,
-    headers?: Record<string, string>
-  ): Promise<ArrayBuffer> {
-    const url = this.buildUrl(path);
-    const requestHeaders = this.buildHeaders({
-      ...headers,
-      'Accept': '*/*',
-    });
-
-    const response = await this.fetchFn(url, {
+    options?: RequestOptions
+  ): APIPromise<ArrayBuffer> {
+    const responsePromise = Promise.resolve().then(() => this.execute({
+      url: this.buildUrl(path),
       method: 'POST',
-      headers: requestHeaders,
+      headers: this.buildHeaders({
+        'Accept': '*/*',
+        ...this.optionHeaders('POST', options),
+      }),
       body: body ? JSON.stringify(body) : undefined,
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.json().catch(() => ({ error: response.statusText }));
-      throw MQLAPIError.fromResponse(errorBody as MQLError, response.status);
-    }
+      kind: 'binary',
+    }, options));
 
-    return response.arrayBuffer();
+    return new APIPromise(responsePromise, response => this.readBody(response, r => r.arrayBuffer()));
   }
 
   /**
    * GET request returning binary data (for downloading audio/video)
    */
-  async getBinary(
+  getBinary(
     path: string,
-    headers?: Record<string, string>
-  ): Promise<ArrayBuffer> {
-    const url = this.buildUrl(path);
-    const requestHeaders = this.buildHeaders({
-      ...headers,
-      'Accept': '*/*',
-    });
-
-    const response = await this.fetchFn(url, {
+    options?: RequestOptions
+  ): APIPromise<ArrayBuffer> {
+    const responsePromise = Promise.resolve().then(() => this.execute({
+      url: this.buildUrl(path),
       method: 'GET',
-      headers: requestHeaders,
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.json().catch(() => ({ error: response.statusText }));
-      throw MQLAPIError.fromResponse(errorBody as MQLError, response.status);
-    }
-
-    return response.arrayBuffer();
+      headers: this.buildHeaders({
+        'Accept': '*/*',
+        ...this.optionHeaders('GET', options),
+      }),
+      kind: 'binary',
+    }, options));
+
+    return new APIPromise(responsePromise, response => this.readBody(response, r => r.arrayBuffer()));
   }
 
   /**
    * POST request with FormData (for file uploads)
    */
-  async postFormData<T>(
+  postFormData<T>(
     path: string,
     formData: FormData,
-    headers?: Record<string, string>
-  ): Promise<T> {
-    const url = this.buildUrl(path);
-    
-    // Build headers without Content-Type (browser will set multipart/form-data with boundary)
-    const requestHeaders: Record<string, string> = {
-      'Accept': 'application/json',
-    };
-
-    if (this.apiKey) {
-      requestHeaders['Authorization'] = `Bearer ${this.apiKey}`;
-    }
-    if (this.token) {
-      requestHeaders['Authorization'] = `Bearer ${this.token}`;
-    }
-    if (headers) {
-      Object.assign(requestHeaders, headers);
-    }
-
-    const response = await this.fetchFn(url, {
-      method: 'POST',
-      headers: requestHeaders,
-      body: formData,
+    options?: RequestOptions
+  ): APIPromise<T> {
+    const responsePromise = Promise.resolve().then(() => {
+      // Build headers without Content-Type (browser will set multipart/form-data with boundary)
+      const requestHeaders: Record<string, string> = {
+        'Accept': 'application/json',
+      };
+
+      Object.assign(requestHeaders, this.defaultHeaders, this.optionHeaders('POST', options));
+
+      return this.execute({
+        url: this.buildUrl(path),
+        method: 'POST',
+        headers: requestHeaders,
+        body: formData,
+        kind: 'multipart',
+      }, options);
     });
 
-    if (!response.ok) {
-      const errorBody = await response.json().catch(() => ({ error: response.statusText }));
-      throw MQLAPIError.fromResponse(errorBody as MQLError, response.status);
-    }
-
-    return response.json();
+    return this.jsonPromise<T>(responsePromise);
   }
 
   /**
-   * Stream a POST request (for chat completions with streaming)
+   * Stream a POST request (for chat completions with streaming), yielding its
+   * Server-Sent Events until `[DONE]`. `error` events are thrown as `MQLAPIError`.
    */
   async *stream(
     path: string,
     body: unknown,
-    headers?: Record<string, string>,
-    signal?: AbortSignal
-  ): AsyncGenerator<string, void, unknown> {
+    options: RequestOptions & { onResponse?: (response: Response) => void } = {}
+  ): AsyncGenerator<ServerSentEvent, void, unknown> {
     const url = this.buildUrl(path);
     const requestHeaders = this.buildHeaders({
-      ...headers,
       'Accept': 'text/event-stream',
+      ...this.optionHeaders('POST', options),
     });
 
-    const response = await this.fetchFn(url, {
+    // Retries only happen before the first byte; a broken stream is not replayed
+    const { response, clearTimer, release } = await this.send({
+      url,
       method: 'POST',
       headers: requestHeaders,
       body: JSON.stringify(body),
-      signal,
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.json().catch(() => ({ error: response.statusText }));
-      throw MQLAPIError.fromResponse(errorBody as MQLError, response.status);
-    }
+      kind: 'stream',
+    }, options);
+    // From here each read is bounded by the idle timeout
+    clearTimer();
 
     if (!response.body) {
+      release();
       throw new MQLAPIError('No response body for stream', 500);
     }
 
+    options.onResponse?.(response);
+
     const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
 
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          break;
+      for await (const event of parseSSE(() => this.readWithIdleTimeout(reader, options.signal))) {
+        if (event.event === 'error') {
+          throw streamError(event.data);
         }
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              return;
-            }
-            yield data;
-          }
+        if (event.data === '[DONE]') {
+          return;
         }
+        yield event;
       }
+    } finally {
+      release();
+      // Cancel rather than just unlock so an abandoned stream frees the connection
+      reader.cancel().catch(() => {});
+    }
+  }
 
-      // Process remaining buffer
-      if (buffer.startsWith('data: ')) {
-        const data = buffer.slice(6);
-        if (data !== '[DONE]') {
-          yield data;
-        }
+  /**
+   * Read the next stream chunk, failing if nothing arrives within `streamIdleTimeout`
+   */
+  private async readWithIdleTimeout(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    signal?: AbortSignal
+  ): Promise<ReadableStreamReadResult<Uint8Array>> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const idle = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new MQLTimeoutError(`Stream idle for more than ${this.streamIdleTimeout}ms`)),
+        this.streamIdleTimeout
+      );
+    });
+
+    try {
+      return await Promise.race([reader.read(), idle]);
+    } catch (err) {
+      if (err instanceof MQLAPIError) {
+        throw err;
+      }
+      if (signal?.aborted) {
+        throw abortError(signal);
       }
+      throw new MQLConnectionError(err instanceof Error ? err.message : 'Stream read failed', { cause: err });
     } finally {
-      reader.releaseLock();
+      clearTimeout(timeoutId);
     }
   }
 
@@ -0,0 +1,249 @@
+import type { ChatCompletionResponse, MQLError, TestFilterMatch, UsageCapError } from './types';
+import { parseRetryAfter } from './retry';
+
+/**
+ * Custom error class for MQL API errors
+ */
+export class MQLAPIError extends Error {
+  public readonly status: number;
+  public readonly code?: string;
+  public readonly details?: Record<string, unknown>;
+
+  constructor(message: string, status: number, code?: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'MQLAPIError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+
+  /**
+   * Build the most specific error subclass for an error response body
+   *
+   * @param error - Parsed error body
+   * @param status - HTTP status code
+   * @param headers - Response headers, used for `Retry-After` on rate limits
+   */
+  static fromResponse(error: MQLError, status: number, headers?: Headers): MQLAPIError {
+    const body = error as MQLError & Record<string, unknown>;
+    const fields = { ...body.details, ...body };
+
+    if (fields.capType !== undefined || fields.cap_type !== undefined) {
+      return new MQLUsageCapError(error, status);
+    }
+
+    if (CONTENT_FILTER_CODES.includes(error.code ?? '')) {
+      return new MQLContentFilteredError(error, status);
+    }
+
+    switch (status) {
+      case 0:
+        return new MQLConnectionError(error.error);
+      case 400:
+      case 422:
+        return new MQLValidationError(error.error, status, error.code, error.details);
+      case 401:
+        return new MQLAuthenticationError(error.error, error.code, error.details);
+      case 403:
+        return new MQLPermissionError(error.error, error.code, error.details);
+      case 408:
+        return new MQLTimeoutError(error.error);
+      case 429:
+        return new MQLRateLimitError(error.error, parseRetryAfter(headers), error.code, error.details);
+      default:
+        return new MQLAPIError(error.error, status, error.code, error.details);
+    }
+  }
+}
+
+const CONTENT_FILTER_CODES = ['content_filtered', 'content_filter', 'filter_blocked'];
+
+/**
+ * Read an error body: MQL's `{ error: string }` or the OpenAI-style
+ * `{ error: { message, code } }` forwarded from upstream providers
+ */
+export function errorBodyFrom(value: unknown): MQLError | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const parsed = value as Record<string, unknown>;
+
+  if (typeof parsed.error === 'string') {
+    return parsed as unknown as MQLError;
+  }
+  if (parsed.error && typeof parsed.error === 'object') {
+    const nested = parsed.error as { message?: string; code?: string };
+    if (nested.message) {
+      return { error: nested.message, code: nested.code ?? undefined };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Missing, invalid or expired API key / token (401)
+ */
+export class MQLAuthenticationError extends MQLAPIError {
+  constructor(message: string, code?: string, details?: Record<string, unknown>) {
+    super(message, 401, code, details);
+    this.name = 'MQLAuthenticationError';
+  }
+}
+
+/**
+ * Authenticated, but not allowed to perform the operation (403)
+ */
+export class MQLPermissionError extends MQLAPIError {
+  constructor(message: string, code?: string, details?: Record<string, unknown>) {
+    super(message, 403, code, details);
+    this.name = 'MQLPermissionError';
+  }
+}
+
+/**
+ * Request rejected as malformed or semantically invalid (400 / 422)
+ */
+export class MQLValidationError extends MQLAPIError {
+  constructor(message: string, status: 400 | 422 = 400, code?: string, details?: Record<string, unknown>) {
+    super(message, status, code, details);
+    this.name = 'MQLValidationError';
+  }
+}
+
+/**
+ * Rate limit exceeded (429)
+ */
+export class MQLRateLimitError extends MQLAPIError {
+  /** Milliseconds the server asked to wait before retrying, or null if not provided */
+  public readonly retryAfter: number | null;
+
+  constructor(message: string, retryAfter: number | null = null, code?: string, details?: Record<string, unknown>) {
+    super(message, 429, code, details);
+    this.name = 'MQLRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Plan limit reached (proxy keys, providers, filters, requests, ...).
+ * Carries everything needed to render an upgrade or trial prompt.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await mql.proxyKeys.create({ ... });
+ * } catch (error) {
+ *   if (error instanceof MQLUsageCapError) {
+ *     showUpgrade(`${error.current}/${error.limit} ${error.capType}`, error.trialAvailable ? error.trialCtaText : error.salesCtaText);
+ *   }
+ * }
+ * ```
+ */
+export class MQLUsageCapError extends MQLAPIError implements Omit<UsageCapError, 'error'> {
+  public readonly capType: UsageCapError['capType'];
+  public readonly current: number;
+  public readonly limit: number;
+  public readonly trialAvailable: boolean;
+  public readonly trialCtaText?: string;
+  public readonly salesCtaText?: string;
+  public readonly currentPlan: string;
+
+  constructor(error: MQLError, status: number) {
+    super(error.error, status, error.code ?? 'usage_cap_exceeded', error.details);
+    this.name = 'MQLUsageCapError';
+
+    // Cap fields may be top-level or nested in `details`, camelCase or snake_case
+    const fields = { ...error.details, ...(error as MQLError & Record<string, unknown>) };
+    const field = (camel: string, snake: string): unknown => fields[camel] ?? fields[snake];
+
+    this.capType = field('capType', 'cap_type') as UsageCapError['capType'];
+    this.current = Number(field('current', 'current') ?? 0);
+    this.limit = Number(field('limit', 'limit') ?? 0);
+    this.trialAvailable = Boolean(field('trialAvailable', 'trial_available'));
+    this.trialCtaText = field('trialCtaText', 'trial_cta_text') as string | undefined;
+    this.salesCtaText = field('salesCtaText', 'sales_cta_text') as string | undefined;
+    this.currentPlan = String(field('currentPlan', 'current_plan') ?? '');
+  }
+}
+
+/**
+ * Request or response blocked by a content filter
+ */
+export class MQLContentFilteredError extends MQLAPIError {
+  /** ID of the filter that blocked the content */
+  public readonly filterId?: string;
+  /** Matches that triggered the filter */
+  public readonly matches: TestFilterMatch[];
+
+  constructor(error: MQLError, status: number) {
+    super(error.error, status, error.code, error.details);
+    this.name = 'MQLContentFilteredError';
+
+    const fields = { ...error.details, ...(error as MQLError & Record<string, unknown>) };
+    this.filterId = (fields.filterId ?? fields.filter_id) as string | undefined;
+    this.matches = ((fields.matches ?? []) as Array<Record<string, unknown>>).map(match => ({
+      matchedText: (match.matchedText ?? match.matched_text) as string,
+      pattern: match.pattern as string,
+      position: match.position as [number, number],
+    }));
+  }
+}
+
+/**
+ * Request timed out, either waiting for a response or between streamed chunks (408)
+ */
+export class MQLTimeoutError extends MQLAPIError {
+  constructor(message = 'Request timeout') {
+    super(message, 408);
+    this.name = 'MQLTimeoutError';
+  }
+}
+
+/**
+ * Network failure before any response was received (status 0)
+ */
+export class MQLConnectionError extends MQLAPIError {
+  constructor(message = 'Connection error', options?: { cause?: unknown }) {
+    super(message, 0);
+    this.name = 'MQLConnectionError';
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Every model raced by `chat.race` / `chat.raceStream` failed
+ */
+export class MQLRaceError extends Error {
+  /** Failure of each model, in the order they were started */
+  public readonly errors: Array<{ model: string; error: unknown }>;
+
+  constructor(message: string, errors: Array<{ model: string; error: unknown }>) {
+    super(message);
+    this.name = 'MQLRaceError';
+    this.errors = errors;
+    if (errors.length > 0) {
+      (this as { cause?: unknown }).cause = errors[0].error;
+    }
+  }
+}
+
+/**
+ * Model reply could not be parsed as JSON or failed schema validation
+ * (raised by `chat.parse` once validation retries are exhausted)
+ */
+export class MQLStructuredOutputError extends Error {
+  /** Raw content of the last reply */
+  public readonly content: string | null;
+  /** The last completion response */
+  public readonly response: ChatCompletionResponse;
+
+  constructor(message: string, content: string | null, response: ChatCompletionResponse, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'MQLStructuredOutputError';
+    this.content = content;
+    this.response = response;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MQL } from './index';
+
+function createMQL(options?: ConstructorParameters<typeof MQL>[0]) {
+  const fetch = vi.fn(async () => new Response('{}', { headers: { 'content-type': 'application/json' } }));
+  const mql = new MQL({ apiKey: 'mql-key', token: 'jwt', ...options, fetch: fetch as typeof globalThis.fetch });
+  // Value of a header on every request sent so far
+  const sent = (name: string) => fetch.mock.calls.map(([, init]: unknown[]) =>
+    ((init as RequestInit).headers as Record<string, string>)[name]);
+  return { mql, sent };
+}
+
+describe('MQL credentials', () => {
+  it('authenticates inference APIs with the proxy key and management APIs with the token', async () => {
+    const { mql, sent } = createMQL();
+
+    await mql.models.list().asResponse();
+    await mql.proxyKeys.list().asResponse();
+    expect(sent('Authorization')).toEqual(['Bearer mql-key', 'Bearer jwt']);
+  });
+
+  it('lets `credentials` move one API without affecting the others', async () => {
+    const { mql, sent } = createMQL({ credentials: { proxyKeys: 'apiKey' } });
+
+    await mql.proxyKeys.list().asResponse();
+    await mql.filters.list().asResponse();
+    await mql.models.list().asResponse();
+    expect(sent('Authorization')).toEqual(['Bearer mql-key', 'Bearer jwt', 'Bearer mql-key']);
+  });
+});
+
+describe('MQL idempotency keys', () => {
+  it('derives a key for each request of a multi-request helper', async () => {
+    const { mql, sent } = createMQL();
+
+    await mql.audio.uploadAndCloneVoice(new Blob(['audio']), 'my_voice', {}, { idempotencyKey: 'clone-1' });
+    expect(sent('Idempotency-Key')).toEqual(['clone-1-upload', 'clone-1']);
+  });
+});
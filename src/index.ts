@@ -1,4 +1,4 @@
-import { HttpClient, MQLAPIError } from './client';
+import { HttpClient, MQLAPIError, APIPromise } from './client';
 import { ChatAPI } from './api/chat';
 import { ProxyKeysAPI } from './api/proxy-keys';
 import { FiltersAPI } from './api/filters';
@@ -16,7 +16,10 @@ import { ImagesAPI } from './api/images';
 import { VideoAPI } from './api/video';
 import { EmbeddingsAPI } from './api/embeddings';
 import { MusicAPI } from './api/music';
-import type { MQLClientOptions } from './types';
+import { CostCalculator } from './lib/cost-calculator';
+import { ResponseCache } from './lib/response-cache';
+import { SemanticCache, type SemanticCacheOptions } from './lib/semantic-cache';
+import type { MQLAPIName, MQLClientOptions, MQLCredential, MQLMiddleware, TokenProvider } from './types';
 
 /**
  * MQL SDK Client
@@ -39,7 +42,7 @@ import type { MQLClientOptions } from './types';
  * @example Streaming chat completion
  * ```typescript
  * for await (const chunk of mql.chat.stream({ messages: [...] })) {
- *   process.stdout.write(chunk.choices[0].delta.content || '');
+ *   process.stdout.write(chunk.choices[0]?.delta.content || '');
  * }
  * ```
  * 
@@ -81,6 +84,12 @@ export class MQL {
   /** Pricing API */
   public readonly pricing: PricingAPI;
 
+  /** Cost calculation from cached pricing tables */
+  public readonly costs: CostCalculator;
+
+  /** Client-side response cache, when enabled with the `cache` option */
+  public readonly cache?: ResponseCache;
+
   /** Experiments API (A/B Testing) */
   public readonly experiments: ExperimentsAPI;
 
@@ -115,35 +124,78 @@ export class MQL {
    * @param options.baseUrl - Base URL of the MQL API (default: https://api.metriqual.com)
    * @param options.apiKey - Proxy key for chat completions (starts with 'mql-')
    * @param options.token - Supabase JWT for management operations
+   * @param options.tokenProvider - Async source of the JWT, refreshed on 401
+   * @param options.credentials - Per-API override of which credential is used
    * @param options.timeout - Request timeout in ms (default: 30000)
+   * @param options.streamIdleTimeout - Max gap between streamed chunks in ms (default: timeout)
    * @param options.maxRetries - Number of retries for failed requests (default: 3)
+   * @param options.retryPolicy - Retry statuses, backoff and Retry-After handling
+   * @param options.onRetry - Callback invoked before each retry
+   * @param options.middleware - Middleware run around every HTTP request
+   * @param options.generateIdempotencyKeys - Send generated Idempotency-Keys with POST/PATCH (default: true)
    * @param options.fetch - Custom fetch implementation
+   * @param options.defaultHeaders - Headers sent with every request
+   * @param options.costTracking - Attach `costUsd` to chat, embedding and transcription responses
+   * @param options.cache - Cache embeddings and deterministic chat completions client-side
    */
   constructor(options: MQLClientOptions = {}) {
     this.httpClient = new HttpClient(options);
 
-    this.chat = new ChatAPI(this.httpClient);
-    this.proxyKeys = new ProxyKeysAPI(this.httpClient);
-    this.filters = new FiltersAPI(this.httpClient);
-    this.organizations = new OrganizationsAPI(this.httpClient);
-    this.analytics = new AnalyticsAPI(this.httpClient);
-    this.models = new ModelsAPI(this.httpClient);
-    this.webhooks = new WebhooksAPI(this.httpClient);
-    this.pricing = new PricingAPI(this.httpClient);
-    this.experiments = new ExperimentsAPI(this.httpClient);
-    this.feedback = new FeedbackAPI(this.httpClient);
-    this.promptHub = new PromptHubAPI(this.httpClient);
-    this.subscription = new SubscriptionAPI(this.httpClient);
-    this.audio = new AudioAPI(this.httpClient);
-    this.images = new ImagesAPI(this.httpClient);
-    this.video = new VideoAPI(this.httpClient);
-    this.embeddings = new EmbeddingsAPI(this.httpClient);
-    this.music = new MusicAPI(this.httpClient);
+    // Inference APIs authenticate with the proxy key, management APIs with the user token
+    const scoped = (api: MQLAPIName, credential: MQLCredential) =>
+      this.httpClient.withCredential(options.credentials?.[api] ?? credential);
+
+    this.pricing = new PricingAPI(scoped('pricing', 'apiKey'));
+    this.costs = new CostCalculator(this.pricing, typeof options.costTracking === 'object' ? options.costTracking : {});
+
+    // Responses are only priced automatically when cost tracking is enabled
+    const tracking = options.costTracking ? this.costs : undefined;
+
+    if (options.cache) {
+      this.cache = new ResponseCache(typeof options.cache === 'object' ? options.cache : {});
+    }
+
+    this.chat = new ChatAPI(scoped('chat', 'apiKey'), tracking, this.cache);
+    this.proxyKeys = new ProxyKeysAPI(scoped('proxyKeys', 'token'));
+    this.filters = new FiltersAPI(scoped('filters', 'token'));
+    this.organizations = new OrganizationsAPI(scoped('organizations', 'token'));
+    this.analytics = new AnalyticsAPI(scoped('analytics', 'token'));
+    this.models = new ModelsAPI(scoped('models', 'apiKey'));
+    this.webhooks = new WebhooksAPI(scoped('webhooks', 'token'));
+    this.experiments = new ExperimentsAPI(scoped('experiments', 'token'));
+    this.feedback = new FeedbackAPI(scoped('feedback', 'token'));
+    this.promptHub = new PromptHubAPI(scoped('promptHub', 'token'));
+    this.subscription = new SubscriptionAPI(scoped('subscription', 'token'));
+    this.audio = new AudioAPI(scoped('audio', 'apiKey'), tracking);
+    this.images = new ImagesAPI(scoped('images', 'apiKey'));
+    this.video = new VideoAPI(scoped('video', 'apiKey'));
+    this.embeddings = new EmbeddingsAPI(scoped('embeddings', 'apiKey'), tracking, this.cache);
+    this.music = new MusicAPI(scoped('music', 'apiKey'));
+  }
+
+  /**
+   * Create a new client inheriting every option of this one (timeouts, retry
+   * policy, hooks, middleware, custom fetch, default headers), with overrides applied.
+   * `defaultHeaders` are merged with the inherited ones.
+   *
+   * @example
+   * ```typescript
+   * const mql = new MQL({ token: 'eyJ...', timeout: 60000, middleware: [tracing] });
+   *
+   * // Cheap per-tenant fork for a multi-tenant server
+   * const tenantClient = mql.withOptions({
+   *   apiKey: tenant.proxyKey,
+   *   defaultHeaders: { 'X-Tenant-Id': tenant.id },
+   * });
+   * ```
+   */
+  withOptions(options: MQLClientOptions): MQL {
+    return new MQL(this.httpClient.withOptions(options).getOptions());
   }
 
   /**
    * Create a new client with different authentication
-   * Useful for switching between proxy key and user token
+   * Useful for switching between proxy key and user token. All other options are kept.
    * 
    * @example
    * ```typescript
@@ -157,13 +209,42 @@ export class MQL {
    * const mgmtClient = mql.withAuth({ token: 'eyJ...' });
    * ```
    */
-  withAuth(auth: { apiKey?: string; token?: string }): MQL {
-    const newClient = this.httpClient.updateAuth(auth);
-    return new MQL({
-      baseUrl: this.httpClient.getBaseUrl(),
-      apiKey: auth.apiKey,
-      token: auth.token,
-    });
+  withAuth(auth: { apiKey?: string; token?: string; tokenProvider?: TokenProvider }): MQL {
+    return this.withOptions({ apiKey: auth.apiKey, token: auth.token, tokenProvider: auth.tokenProvider });
+  }
+
+  /**
+   * Create a semantic cache for chat: paraphrased questions are answered with
+   * a stored completion when their embeddings are similar enough. Entries are
+   * only shared between clients using the same proxy key.
+   *
+   * @example
+   * ```typescript
+   * const cache = mql.semanticCache({ threshold: 0.9, ttlMs: 7 * 24 * 3600_000 });
+   * const response = await cache.create({ messages: [{ role: 'user', content: question }] });
+   * console.log(response.cacheHit, response.similarity);
+   * ```
+   */
+  semanticCache(options?: SemanticCacheOptions): SemanticCache {
+    return new SemanticCache(this.chat, this.embeddings, options, this.httpClient.getOptions().apiKey);
+  }
+
+  /**
+   * Add a middleware that runs around every HTTP request made by this client
+   * (JSON, binary, multipart and streaming alike)
+   *
+   * @example
+   * ```typescript
+   * mql.use(async (request, next) => {
+   *   const response = await next({ ...request, headers: { ...request.headers, 'x-trace-id': traceId } });
+   *   metrics.record(request.kind, response.status);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: MQLMiddleware): this {
+    this.httpClient.use(middleware);
+    return this;
   }
 
   /**
@@ -177,8 +258,70 @@ export class MQL {
 // Export all types
 export * from './types';
 
-// Export the error class
+// Export the error classes
 export { MQLAPIError };
+export {
+  MQLAuthenticationError,
+  MQLPermissionError,
+  MQLValidationError,
+  MQLRateLimitError,
+  MQLUsageCapError,
+  MQLContentFilteredError,
+  MQLTimeoutError,
+  MQLConnectionError,
+  MQLStructuredOutputError,
+  MQLRaceError,
+} from './errors';
+
+// Export the promise type returned by API methods
+export { APIPromise };
+export type { APIResponseWithData } from './client';
+
+// Export helpers
+export { ChatCompletionAccumulator } from './lib/stream-accumulator';
+export { ChatCompletionStream } from './lib/chat-stream';
+export type { ChatCompletionStreamEvents, ChatStreamFormat, ToStreamOptions } from './lib/chat-stream';
+export { SSEDecoder, parseSSE } from './lib/sse';
+export type { ServerSentEvent } from './lib/sse';
+export type {
+  RunnableTool,
+  RunToolsParams,
+  RunToolsResult,
+  ToolHandlerContext,
+  ToolRunnerEvent,
+} from './lib/tool-runner';
+export type { OutputValidator, ParseParams, ParsedChatCompletion } from './lib/structured-output';
+export type { RaceAttempt, RaceOutcome, RaceParams, RacedChatCompletion } from './lib/race';
+export { validateJsonSchema } from './lib/json-schema';
+export {
+  textPart,
+  imagePart,
+  imagePartFromData,
+  imagePartFromFile,
+  audioPart,
+  audioPartFromFile,
+  filePart,
+  filePartFromFile,
+  contentText,
+  hasImageContent,
+} from './lib/content';
+export type { BinaryData } from './lib/content';
+export { TokenCounter, estimateCost } from './lib/tokenizer';
+export { CostCalculator, normalizePricing } from './lib/cost-calculator';
+export { ResponseCache, MemoryCacheStore, FileCacheStore, isCacheHit } from './lib/response-cache';
+export type { CacheScope } from './lib/response-cache';
+export { SemanticCache, MemoryVectorStore } from './lib/semantic-cache';
+export type {
+  SemanticCacheEntry,
+  SemanticCacheFilter,
+  SemanticCacheOptions,
+  SemanticCachedCompletion,
+  VectorMatch,
+  VectorStore,
+} from './lib/semantic-cache';
+export type { CostEstimate, Tokenizer, TokenizerResolver, TokenCounterOptions } from './lib/tokenizer';
+export { Conversation } from './lib/conversation';
+export type { ConversationEntry, ConversationOptions, ConversationSnapshot } from './lib/conversation';
 
 // Export API classes for advanced usage
 export {
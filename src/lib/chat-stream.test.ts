@@ -0,0 +1,235 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MQLAPIError } from '../errors';
+import { ChatCompletionStream } from './chat-stream';
+import type { ChatCompletionChunk } from '../types';
+
+function chunk(content: string, finishReason: ChatCompletionChunk['choices'][number]['finishReason'] = null): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta: { content }, finishReason }],
+  };
+}
+
+const chunks = [chunk('Hel'), chunk('lo'), chunk('', 'stop')];
+
+/**
+ * Stream over `items` that fails with `error` once they run out, if given.
+ * `state.returned` records whether the source was stopped early.
+ */
+function streamOf(items: ChatCompletionChunk[], error?: Error) {
+  const state = { pulled: 0, returned: false };
+  const stream = new ChatCompletionStream(() => ({
+    next: async () => {
+      if (state.pulled < items.length) return { done: false, value: items[state.pulled++] };
+      if (error) throw error;
+      return { done: true, value: undefined };
+    },
+    return: async () => {
+      state.returned = true;
+      return { done: true, value: undefined };
+    },
+  }));
+  return { stream, state };
+}
+
+async function collect(stream: AsyncIterable<ChatCompletionChunk>): Promise<ChatCompletionChunk[]> {
+  const result: ChatCompletionChunk[] = [];
+  for await (const item of stream) {
+    result.push(item);
+  }
+  return result;
+}
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('ChatCompletionStream conversions', () => {
+  it('round-trips through toReadableStream and fromReadableStream', async () => {
+    const body = streamOf(chunks).stream.toReadableStream();
+    expect(await collect(ChatCompletionStream.fromReadableStream(body))).toEqual(chunks);
+  });
+
+  it('serialises chunks as SSE ending with [DONE]', async () => {
+    const text = await readText(streamOf(chunks).stream.toReadableStream());
+    expect(text.split('\n\n').filter(Boolean)).toEqual([
+      ...chunks.map(c => `data: ${JSON.stringify(c)}`),
+      'data: [DONE]',
+    ]);
+  });
+
+  it('serialises only the text deltas in text format', async () => {
+    expect(await readText(streamOf(chunks).stream.toReadableStream({ format: 'text' }))).toBe('Hello');
+  });
+
+  it('sends a failure as an error event that fromReadableStream rethrows', async () => {
+    const failure = new MQLAPIError('Provider overloaded', 503, 'overloaded');
+    const body = streamOf([chunk('Hi')], failure).stream.toReadableStream();
+
+    const received: ChatCompletionChunk[] = [];
+    const error = await (async () => {
+      for await (const item of ChatCompletionStream.fromReadableStream(body)) {
+        received.push(item);
+      }
+    })().catch((e: unknown) => e);
+
+    expect(received).toEqual([chunk('Hi')]);
+    expect(error).toBeInstanceOf(MQLAPIError);
+    expect((error as MQLAPIError).status).toBe(503);
+    expect((error as MQLAPIError).message).toBe('Provider overloaded');
+  });
+
+  it('stops the source when the readable stream is cancelled', async () => {
+    const { stream, state } = streamOf(chunks);
+    const reader = stream.toReadableStream().getReader();
+
+    await reader.read();
+    await reader.cancel();
+    expect(state.returned).toBe(true);
+    expect(state.pulled).toBeLessThan(chunks.length);
+  });
+
+  it('decodes SSE split across arbitrary network chunks', async () => {
+    const bytes = new TextEncoder().encode(await readText(streamOf(chunks).stream.toReadableStream()));
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 7) {
+          controller.enqueue(bytes.slice(i, i + 7));
+        }
+        controller.close();
+      },
+    });
+
+    expect(await collect(ChatCompletionStream.fromReadableStream(body))).toEqual(chunks);
+  });
+
+  it('aborts a stream rebuilt from a body that stalls', async () => {
+    const body = new ReadableStream<Uint8Array>({ start() {} });
+    const controller = new AbortController();
+    const stream = ChatCompletionStream.fromReadableStream(body, controller.signal);
+
+    const result = stream.finalCompletion();
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('pipes through a Node Readable', async () => {
+    const readable = await streamOf(chunks).stream.toNodeReadable({ format: 'text' });
+
+    let text = '';
+    for await (const piece of readable) {
+      text += Buffer.isBuffer(piece) ? piece.toString('utf8') : String(piece);
+    }
+    expect(text).toBe('Hello');
+  });
+});
+
+describe('ChatCompletionStream events and results', () => {
+  it('emits typed events while it is consumed', async () => {
+    const events: string[] = [];
+    const text = await streamOf(chunks).stream
+      .on('content', (delta, snapshot) => events.push(`content ${delta} ${snapshot}`))
+      .on('finish', reason => events.push(`finish ${reason}`))
+      .on('done', completion => events.push(`done ${completion.choices[0].message.content}`))
+      .finalText();
+
+    expect(text).toBe('Hello');
+    expect(events).toEqual(['content Hel Hel', 'content lo Hello', 'finish stop', 'done Hello']);
+  });
+
+  it('rejects the final result and emits error when the source fails', async () => {
+    const failure = new Error('connection reset');
+    const onError = vi.fn();
+
+    await expect(streamOf(chunks, failure).stream.on('error', onError).finalCompletion()).rejects.toBe(failure);
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+
+  it('can only be consumed once', async () => {
+    const { stream } = streamOf(chunks);
+    await collect(stream);
+    expect(() => stream[Symbol.asyncIterator]()).toThrow('already been consumed');
+  });
+
+  it('rejects with an AbortError and stops the source when aborted', async () => {
+    const { stream, state } = streamOf(chunks);
+    const onAbort = vi.fn();
+    stream.on('abort', onAbort);
+
+    const iterator = stream[Symbol.asyncIterator]();
+    await iterator.next();
+    stream.abort();
+
+    await expect(iterator.next()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(state.returned).toBe(true);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ChatCompletionStream.tee', () => {
+  it('gives both branches every chunk while reading the source once', async () => {
+    const { stream, state } = streamOf(chunks);
+    const [left, right] = stream.tee();
+
+    const [a, b] = await Promise.all([collect(left), collect(right)]);
+    expect(a).toEqual(chunks);
+    expect(b).toEqual(chunks);
+    expect(state.pulled).toBe(chunks.length);
+  });
+
+  it('fires the original stream listeners once per chunk', async () => {
+    const { stream } = streamOf(chunks);
+    const onChunk = vi.fn();
+    const [left, right] = stream.on('chunk', onChunk).tee();
+
+    await Promise.all([left.finalText(), right.finalText()]);
+    expect(onChunk).toHaveBeenCalledTimes(chunks.length);
+  });
+
+  it('keeps the source open until every branch has stopped', async () => {
+    const { stream, state } = streamOf(chunks);
+    const [left, right] = stream.tee();
+
+    for await (const _chunk of left) {
+      break;
+    }
+    expect(state.returned).toBe(false);
+
+    expect(await collect(right)).toEqual(chunks);
+  });
+
+  it('stops the source once both branches are cancelled', async () => {
+    const { stream, state } = streamOf(chunks);
+    const [left, right] = stream.tee();
+
+    await left.toReadableStream().cancel();
+    expect(state.returned).toBe(false);
+    const reader = right.toReadableStream().getReader();
+    await reader.read();
+    await reader.cancel();
+    expect(state.returned).toBe(true);
+  });
+
+  it('propagates a source failure to both branches', async () => {
+    const failure = new Error('connection reset');
+    const [left, right] = streamOf(chunks, failure).stream.tee();
+
+    const [a, b] = await Promise.allSettled([left.finalText(), right.finalText()]);
+    expect(a).toEqual({ status: 'rejected', reason: failure });
+    expect(b).toEqual({ status: 'rejected', reason: failure });
+  });
+
+  it('propagates an abort of the original stream to both branches', async () => {
+    const { stream } = streamOf(chunks);
+    const [left, right] = stream.tee();
+
+    const results = Promise.allSettled([left.finalText(), right.finalText()]);
+    stream.abort();
+    for (const result of await results) {
+      expect(result).toMatchObject({ status: 'rejected', reason: { name: 'AbortError' } });
+    }
+  });
+});
@@ -0,0 +1,470 @@
+import type { Readable } from 'node:stream';
+import { MQLAPIError, errorBodyFrom } from '../errors';
+import { contentText } from './content';
+import { parseSSE } from './sse';
+import { ChatCompletionAccumulator } from './stream-accumulator';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionChunkChoice,
+  ChatCompletionResponse,
+  ChatMessage,
+  MQLError,
+  MQLResponseMetadata,
+  ToolCallDelta,
+  UsageInfo,
+} from '../types';
+
+/**
+ * Wire format when re-serving a stream: Server-Sent Events carrying the SDK
+ * chunks as JSON, or just the text deltas of the first choice
+ */
+export type ChatStreamFormat = 'sse' | 'text';
+
+export interface ToStreamOptions {
+  /** Default: 'sse' (re-consumable with `ChatCompletionStream.fromReadableStream`) */
+  format?: ChatStreamFormat;
+}
+
+/**
+ * Listener signatures for `ChatCompletionStream.on`
+ */
+export interface ChatCompletionStreamEvents {
+  /** Every chunk, as received */
+  chunk: (chunk: ChatCompletionChunk) => void;
+  /** Text delta of a choice, with the text received so far */
+  content: (delta: string, snapshot: string, choiceIndex: number) => void;
+  /** Fragment of a tool call; arguments arrive in pieces */
+  toolCall: (delta: ToolCallDelta, choiceIndex: number) => void;
+  /** Token usage, when the provider reports it */
+  usage: (usage: UsageInfo) => void;
+  /** A choice finished */
+  finish: (reason: NonNullable<ChatCompletionChunkChoice['finishReason']>, choiceIndex: number) => void;
+  /** The gateway served the request from a fallback provider */
+  fallback: (metadata: MQLResponseMetadata) => void;
+  /** The stream completed; the accumulated response */
+  done: (completion: ChatCompletionResponse) => void;
+  /** The stream failed (including when aborted) */
+  error: (error: Error) => void;
+  /** `abort()` was called */
+  abort: () => void;
+}
+
+type Listeners = { [E in keyof ChatCompletionStreamEvents]?: Array<ChatCompletionStreamEvents[E]> };
+
+/**
+ * A streaming chat completion. Iterate it with `for await`, listen to typed
+ * events, await the final result, or convert it into a web `ReadableStream` or
+ * Node `Readable` to pipe it to an HTTP response. A stream can only be consumed
+ * once; use `tee()` to fan it out.
+ *
+ * Listeners fire while the stream is consumed, either by iterating it or by
+ * awaiting `done()`, `finalCompletion()`, `finalMessage()` or `finalText()`.
+ *
+ * @example
+ * ```typescript
+ * const stream = mql.chat.stream({ messages })
+ *   .on('content', (delta) => process.stdout.write(delta))
+ *   .on('toolCall', (delta) => console.log('tool call fragment', delta))
+ *   .on('fallback', (meta) => console.warn('served by fallback', meta.provider));
+ *
+ * const message = await stream.finalMessage();
+ *
+ * // Next.js route handler
+ * export async function POST(req: Request) {
+ *   const stream = mql.chat.stream({ messages: await req.json() });
+ *   return new Response(stream.toReadableStream(), {
+ *     headers: { 'Content-Type': 'text/event-stream' },
+ *   });
+ * }
+ *
+ * // Browser
+ * const response = await fetch('/api/chat', { method: 'POST', body: JSON.stringify(messages) });
+ * for await (const chunk of ChatCompletionStream.fromReadableStream(response.body!)) {
+ *   render(chunk.choices[0]?.delta.content ?? '');
+ * }
+ * ```
+ */
+export class ChatCompletionStream implements AsyncIterable<ChatCompletionChunk> {
+  private consumed = false;
+  private readonly controller = new AbortController();
+  private readonly listeners: Listeners = {};
+  private readonly accumulator = new ChatCompletionAccumulator();
+  private readonly snapshots = new Map<number, string>();
+  private fallbackReported = false;
+  private readonly completion: Promise<ChatCompletionResponse>;
+  private settle!: { resolve: (completion: ChatCompletionResponse) => void; reject: (error: unknown) => void };
+
+  /**
+   * @param source - Produces the chunks; must stop when the given signal aborts
+   * @param signal - Caller's signal; aborting it aborts the stream
+   */
+  constructor(
+    private readonly source: (signal: AbortSignal) => AsyncIterator<ChatCompletionChunk>,
+    signal?: AbortSignal
+  ) {
+    this.completion = new Promise((resolve, reject) => {
+      this.settle = { resolve, reject };
+    });
+    // Failures are reported to whoever consumes the stream
+    this.completion.catch(() => {});
+
+    if (signal?.aborted) {
+      this.controller.abort(signal.reason);
+    } else {
+      signal?.addEventListener('abort', () => this.controller.abort(signal.reason), { once: true });
+    }
+  }
+
+  /**
+   * Rebuild a stream from SSE produced by `toReadableStream()` / `toNodeReadable()`,
+   * e.g. a `fetch` response body. Error events are rethrown as `MQLAPIError`.
+   */
+  static fromReadableStream(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): ChatCompletionStream {
+    return new ChatCompletionStream(abortSignal => decodeSSE(stream, abortSignal), signal);
+  }
+
+  /** Signal that fires when the stream is aborted */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Register a listener
+   */
+  on<E extends keyof ChatCompletionStreamEvents>(event: E, listener: ChatCompletionStreamEvents[E]): this {
+    const listeners = (this.listeners[event] ??= []) as Array<ChatCompletionStreamEvents[E]>;
+    listeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener registered with `on` or `once`
+   */
+  off<E extends keyof ChatCompletionStreamEvents>(event: E, listener: ChatCompletionStreamEvents[E]): this {
+    const listeners = this.listeners[event] as Array<ChatCompletionStreamEvents[E]> | undefined;
+    const index = listeners?.indexOf(listener) ?? -1;
+    if (index !== -1) listeners!.splice(index, 1);
+    return this;
+  }
+
+  /**
+   * Register a listener that is removed after its first call
+   */
+  once<E extends keyof ChatCompletionStreamEvents>(event: E, listener: ChatCompletionStreamEvents[E]): this {
+    const wrapper = ((...args: Parameters<ChatCompletionStreamEvents[E]>) => {
+      this.off(event, wrapper);
+      (listener as (...args: Parameters<ChatCompletionStreamEvents[E]>) => void)(...args);
+    }) as ChatCompletionStreamEvents[E];
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Cancel the request. Consumers see an `AbortError`.
+   */
+  abort(reason?: unknown): void {
+    if (this.controller.signal.aborted) return;
+    this.controller.abort(reason);
+    this.emit('abort');
+  }
+
+  /**
+   * Consume the stream and resolve once it completes
+   */
+  async done(): Promise<void> {
+    await this.finalCompletion();
+  }
+
+  /**
+   * Consume the stream and resolve to the accumulated response
+   * (tool calls merged, finish reasons, usage and routing metadata)
+   */
+  finalCompletion(): Promise<ChatCompletionResponse> {
+    this.drain();
+    return this.completion;
+  }
+
+  /**
+   * Consume the stream and resolve to the first choice's message
+   */
+  async finalMessage(): Promise<ChatMessage> {
+    const completion = await this.finalCompletion();
+    const message = completion.choices[0]?.message;
+    if (!message) {
+      throw new Error('Stream ended without any choices');
+    }
+    return message;
+  }
+
+  /**
+   * Consume the stream and resolve to the first choice's text
+   */
+  async finalText(): Promise<string> {
+    return contentText((await this.finalMessage()).content);
+  }
+
+  /**
+   * Split into two independent streams that both receive every chunk. The
+   * source is read as fast as the faster branch; this stream's own listeners
+   * still fire once per chunk.
+   *
+   * @example
+   * ```typescript
+   * const [forClient, forLog] = mql.chat.stream({ messages }).tee();
+   * forLog.finalText().then(text => audit.save(text));
+   * return new Response(forClient.toReadableStream());
+   * ```
+   */
+  tee(): [ChatCompletionStream, ChatCompletionStream] {
+    const iterator = this[Symbol.asyncIterator]();
+    const queues: Array<Array<Promise<IteratorResult<ChatCompletionChunk>>>> = [[], []];
+    let open = queues.length;
+
+    // The source is only cancelled once every branch has stopped reading
+    const detach = async (queue: Array<Promise<IteratorResult<ChatCompletionChunk>>>) => {
+      const index = queues.indexOf(queue);
+      if (index === -1) return;
+      queue.length = 0;
+      queues.splice(index, 1);
+      if (--open === 0) {
+        await iterator.return?.();
+      }
+    };
+
+    const branch = (queue: Array<Promise<IteratorResult<ChatCompletionChunk>>>) => {
+      const stream = new ChatCompletionStream(() => ({
+        next: () => {
+          if (queue.length === 0) {
+            const result = iterator.next();
+            queues.forEach(q => q.push(result));
+          }
+          return queue.shift()!;
+        },
+        return: async () => {
+          await detach(queue);
+          return { done: true, value: undefined };
+        },
+      }));
+      // A branch aborted before it was read never calls `return`
+      stream.signal.addEventListener('abort', () => { void detach(queue); }, { once: true });
+      return stream;
+    };
+
+    return [branch(queues[0]), branch(queues[1])];
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ChatCompletionChunk> {
+    if (this.consumed) {
+      throw new Error('ChatCompletionStream has already been consumed');
+    }
+    this.consumed = true;
+    return this.iterate();
+  }
+
+  /**
+   * Web `ReadableStream` of UTF-8 bytes. Chunks are pulled from the model only
+   * as fast as the consumer reads; cancelling the stream cancels the request.
+   */
+  toReadableStream(options?: ToStreamOptions): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const iterator = this.encode(options?.format ?? 'sse');
+    let started = false;
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        started = true;
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      },
+      cancel: async (reason) => {
+        if (started) {
+          await iterator.return(undefined);
+        } else {
+          // Returning an unstarted generator would not reach the source
+          this.abort(reason);
+        }
+      },
+    });
+  }
+
+  /**
+   * Node.js `Readable` (with backpressure) for piping into an Express / `http` response
+   *
+   * @example
+   * ```typescript
+   * app.post('/chat', async (req, res) => {
+   *   res.setHeader('Content-Type', 'text/event-stream');
+   *   (await mql.chat.stream({ messages: req.body.messages }).toNodeReadable()).pipe(res);
+   * });
+   * ```
+   */
+  async toNodeReadable(options?: ToStreamOptions): Promise<Readable> {
+    const { Readable } = await import('node:stream');
+    return Readable.from(this.encode(options?.format ?? 'sse'), { objectMode: false });
+  }
+
+  /**
+   * Pull chunks from the source, emitting events and accumulating the response
+   */
+  private async *iterate(): AsyncGenerator<ChatCompletionChunk, void, undefined> {
+    const signal = this.controller.signal;
+    let settled = false;
+
+    try {
+      const source = this.source(signal);
+      try {
+        while (true) {
+          const result = await source.next();
+          if (signal.aborted) throw abortError(signal);
+          if (result.done) break;
+
+          this.handleChunk(result.value);
+          yield result.value;
+        }
+      } finally {
+        // Stop the source when the consumer exits early (break, return, error)
+        await source.return?.();
+      }
+
+      const completion = this.accumulator.toResponse();
+      settled = true;
+      this.emit('done', completion);
+      this.settle.resolve(completion);
+    } catch (err) {
+      const error = signal.aborted ? abortError(signal) : err instanceof Error ? err : new Error(String(err));
+      settled = true;
+      this.emit('error', error);
+      this.settle.reject(error);
+      throw error;
+    } finally {
+      if (!settled) {
+        this.settle.reject(new Error('Stream was closed before it completed'));
+      }
+    }
+  }
+
+  private handleChunk(chunk: ChatCompletionChunk): void {
+    this.accumulator.add(chunk);
+    this.emit('chunk', chunk);
+
+    for (const choice of chunk.choices ?? []) {
+      const delta = choice.delta.content;
+      if (delta) {
+        const snapshot = (this.snapshots.get(choice.index) ?? '') + delta;
+        this.snapshots.set(choice.index, snapshot);
+        this.emit('content', delta, snapshot, choice.index);
+      }
+      for (const toolCall of choice.delta.toolCalls ?? []) {
+        this.emit('toolCall', toolCall, choice.index);
+      }
+      if (choice.finishReason) {
+        this.emit('finish', choice.finishReason, choice.index);
+      }
+    }
+
+    if (chunk.usage) {
+      this.emit('usage', chunk.usage);
+    }
+    // Several closing chunks carry the metadata; report the fallback once
+    if (chunk.mql?.isFallback && !this.fallbackReported) {
+      this.fallbackReported = true;
+      this.emit('fallback', chunk.mql);
+    }
+  }
+
+  private emit<E extends keyof ChatCompletionStreamEvents>(
+    event: E,
+    ...args: Parameters<ChatCompletionStreamEvents[E]>
+  ): void {
+    const listeners = this.listeners[event] as Array<(...args: Parameters<ChatCompletionStreamEvents[E]>) => void> | undefined;
+    // Copy so listeners removing themselves (`once`) do not skip others
+    for (const listener of [...(listeners ?? [])]) {
+      listener(...args);
+    }
+  }
+
+  /**
+   * Consume the stream in the background so events and final results are produced
+   */
+  private drain(): void {
+    if (this.consumed) return;
+    void (async () => {
+      for await (const _chunk of this) {
+        // Events are emitted while iterating
+      }
+    })().catch(() => {
+      // Surfaced through `completion`
+    });
+  }
+
+  /**
+   * Serialise the chunks. In SSE format a failure is sent as an `error` event
+   * so the receiving side can rethrow it.
+   */
+  private async *encode(format: ChatStreamFormat): AsyncGenerator<string, void, undefined> {
+    try {
+      for await (const chunk of this) {
+        if (format === 'sse') {
+          yield `data: ${JSON.stringify(chunk)}\n\n`;
+        } else if (chunk.choices[0]?.delta.content) {
+          yield chunk.choices[0].delta.content;
+        }
+      }
+      if (format === 'sse') {
+        yield 'data: [DONE]\n\n';
+      }
+    } catch (error) {
+      if (format !== 'sse') throw error;
+      const status = error instanceof MQLAPIError ? error.status : 500;
+      const body: MQLError = {
+        error: error instanceof Error ? error.message : String(error),
+        code: error instanceof MQLAPIError ? error.code : undefined,
+      };
+      yield `event: error\ndata: ${JSON.stringify({ ...body, status })}\n\n`;
+    }
+  }
+}
+
+/**
+ * Error thrown to consumers of an aborted stream
+ */
+function abortError(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error) {
+    return signal.reason;
+  }
+  const error = new Error('Stream aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Decode SSE produced by `ChatCompletionStream.encode` back into chunks
+ */
+async function* decodeSSE(
+  stream: ReadableStream<Uint8Array>,
+  signal: AbortSignal
+): AsyncGenerator<ChatCompletionChunk, void, undefined> {
+  const reader = stream.getReader();
+  // Ends the pending read so the consumer sees the abort
+  const cancel = () => { reader.cancel().catch(() => undefined); };
+  signal.addEventListener('abort', cancel, { once: true });
+
+  try {
+    for await (const { event, data } of parseSSE(() => reader.read())) {
+      if (event === 'error') {
+        const { status, ...body } = JSON.parse(data) as Record<string, unknown>;
+        throw MQLAPIError.fromResponse(errorBodyFrom(body) ?? { error: data }, typeof status === 'number' ? status : 500);
+      }
+      if (event !== 'message') continue;
+      if (data === '[DONE]') return;
+      yield JSON.parse(data) as ChatCompletionChunk;
+    }
+  } finally {
+    signal.removeEventListener('abort', cancel);
+    reader.releaseLock();
+    await stream.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,205 @@
+import type {
+  AudioContentPart,
+  ChatContentPart,
+  ChatMessage,
+  FileContentPart,
+  ImageContentPart,
+  TextContentPart,
+} from '../types';
+
+/**
+ * Binary input accepted by the part builders. Node `Buffer`s are `Uint8Array`s.
+ */
+export type BinaryData = ArrayBuffer | Uint8Array | Blob;
+
+type ImageDetail = ImageContentPart['imageUrl']['detail'];
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// ============================================================================
+// Part builders
+// ============================================================================
+
+/**
+ * Text content part
+ */
+export function textPart(text: string): TextContentPart {
+  return { type: 'text', text };
+}
+
+/**
+ * Image content part from a URL (public or `data:`)
+ *
+ * @example
+ * ```typescript
+ * await mql.chat.create({
+ *   model: 'gpt-4o',
+ *   messages: [{
+ *     role: 'user',
+ *     content: [textPart('What is in this picture?'), imagePart('https://example.com/cat.png', 'low')],
+ *   }],
+ * });
+ * ```
+ */
+export function imagePart(url: string, detail?: ImageDetail): ImageContentPart {
+  return { type: 'image_url', imageUrl: detail ? { url, detail } : { url } };
+}
+
+/**
+ * Image content part from raw bytes, sent inline as a base64 `data:` URL
+ *
+ * @param mimeType - Defaults to the Blob's type, or `image/png`
+ */
+export async function imagePartFromData(
+  data: BinaryData,
+  mimeType?: string,
+  detail?: ImageDetail
+): Promise<ImageContentPart> {
+  return imagePart(await toDataUrl(data, mimeType ?? blobType(data) ?? 'image/png'), detail);
+}
+
+/**
+ * Audio content part from raw bytes
+ */
+export async function audioPart(data: BinaryData, format: AudioContentPart['inputAudio']['format']): Promise<AudioContentPart> {
+  return { type: 'input_audio', inputAudio: { data: toBase64(await toBytes(data)), format } };
+}
+
+/**
+ * File content part referencing an uploaded file, or carrying the file inline
+ *
+ * @example
+ * ```typescript
+ * filePart({ fileId: 'file_abc123' });
+ * await filePart({ data: pdfBuffer, filename: 'report.pdf' });
+ * ```
+ */
+export function filePart(file: { fileId: string }): FileContentPart;
+export function filePart(file: { data: BinaryData; filename: string; mimeType?: string }): Promise<FileContentPart>;
+export function filePart(
+  file: { fileId: string } | { data: BinaryData; filename: string; mimeType?: string }
+): FileContentPart | Promise<FileContentPart> {
+  if ('fileId' in file) {
+    return { type: 'file', file: { fileId: file.fileId } };
+  }
+  const mimeType = file.mimeType ?? blobType(file.data) ?? mimeTypeFor(file.filename) ?? 'application/octet-stream';
+  return toDataUrl(file.data, mimeType).then(fileData => ({
+    type: 'file' as const,
+    file: { filename: file.filename, fileData },
+  }));
+}
+
+// ============================================================================
+// Local files (Node.js only)
+// ============================================================================
+
+/**
+ * Image content part from a local file; the MIME type is taken from the extension
+ *
+ * @example
+ * ```typescript
+ * const content = [textPart('Describe this chart'), await imagePartFromFile('./chart.png', 'high')];
+ * ```
+ */
+export async function imagePartFromFile(path: string, detail?: ImageDetail): Promise<ImageContentPart> {
+  return imagePartFromData(await readLocalFile(path), mimeTypeFor(path) ?? 'image/png', detail);
+}
+
+/**
+ * Audio content part from a local `.wav` or `.mp3` file
+ */
+export async function audioPartFromFile(path: string): Promise<AudioContentPart> {
+  const extension = extensionOf(path);
+  if (extension !== 'wav' && extension !== 'mp3') {
+    throw new Error(`Unsupported audio format "${extension}" (expected wav or mp3)`);
+  }
+  return audioPart(await readLocalFile(path), extension);
+}
+
+/**
+ * Inline file content part from a local file
+ */
+export async function filePartFromFile(path: string): Promise<FileContentPart> {
+  const filename = path.split(/[\\/]/).pop() ?? path;
+  return filePart({ data: await readLocalFile(path), filename });
+}
+
+// ============================================================================
+// Inspection
+// ============================================================================
+
+/**
+ * Text of a message's content: the string itself, or its text parts joined
+ */
+export function contentText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return (content ?? [])
+    .filter((part): part is TextContentPart => part.type === 'text')
+    .map(part => part.text)
+    .join('');
+}
+
+/**
+ * Whether any message includes an image part
+ */
+export function hasImageContent(messages: ChatMessage[]): boolean {
+  return messages.some(message =>
+    Array.isArray(message.content) && message.content.some((part: ChatContentPart) => part.type === 'image_url')
+  );
+}
+
+// ============================================================================
+// Encoding helpers
+// ============================================================================
+
+async function readLocalFile(path: string): Promise<Uint8Array> {
+  const { readFile } = await import('node:fs/promises');
+  return readFile(path);
+}
+
+async function toBytes(data: BinaryData): Promise<Uint8Array> {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+async function toDataUrl(data: BinaryData, mimeType: string): Promise<string> {
+  return `data:${mimeType};base64,${toBase64(await toBytes(data))}`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  }
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function blobType(data: BinaryData): string | undefined {
+  return typeof Blob !== 'undefined' && data instanceof Blob && data.type ? data.type : undefined;
+}
+
+function extensionOf(path: string): string {
+  const match = /\.([^./\\]+)$/.exec(path);
+  return match ? match[1].toLowerCase() : '';
+}
+
+function mimeTypeFor(path: string): string | undefined {
+  return MIME_TYPES[extensionOf(path)];
+}
@@ -0,0 +1,274 @@
+import type { ChatAPI } from '../api/chat';
+import { deriveIdempotencyKey } from '../retry';
+import { TokenCounter } from './tokenizer';
+import type { RunToolsParams, RunToolsResult } from './tool-runner';
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  ModelPricing,
+  RequestOptions,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConversationOptions extends Omit<ChatCompletionRequest, 'messages' | 'stream'> {
+  /** System prompt, pinned so it is never trimmed */
+  system?: string;
+  /** Context window in tokens; trimming is disabled when neither this nor `modelPricing` is set */
+  contextTokens?: number;
+  /** Pricing entry of the model, whose `contextLength` is used when `contextTokens` is not set */
+  modelPricing?: ModelPricing;
+  /** Tokens kept free for the reply (default: `maxTokens`, or 1024) */
+  reserveTokens?: number;
+  /** How to make room: drop the oldest turns, or replace them with a model-written summary (default: 'drop') */
+  trimStrategy?: 'drop' | 'summarize';
+  /** Token count for one message (default: `TokenCounter` approximation for `model`) */
+  countTokens?: (message: ChatMessage) => number;
+}
+
+export interface ConversationEntry {
+  message: ChatMessage;
+  /** Pinned messages are never trimmed */
+  pinned?: boolean;
+}
+
+/**
+ * Serialisable conversation state, as returned by `toJSON()`
+ */
+export interface ConversationSnapshot {
+  messages: ConversationEntry[];
+}
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:\n';
+
+// ============================================================================
+// Conversation
+// ============================================================================
+
+/**
+ * Chat history with automatic reply tracking and context-window trimming
+ *
+ * @example
+ * ```typescript
+ * const conversation = mql.chat.conversation({
+ *   model: 'gpt-4o',
+ *   system: 'You are a helpful support agent.',
+ *   modelPricing: await mql.pricing.getModel('openai', 'gpt-4o'),
+ *   trimStrategy: 'summarize',
+ * });
+ *
+ * await conversation.send('My order has not arrived');
+ * const reply = await conversation.send('It was order #1234');
+ * console.log(reply.choices[0].message.content);
+ *
+ * // Store between HTTP requests
+ * session.history = JSON.stringify(conversation);
+ * const restored = mql.chat.conversation(options, JSON.parse(session.history));
+ * ```
+ */
+export class Conversation {
+  private entries: ConversationEntry[] = [];
+  private readonly request: Omit<ChatCompletionRequest, 'messages' | 'stream'>;
+  private readonly contextTokens?: number;
+  private readonly reserveTokens: number;
+  private readonly trimStrategy: 'drop' | 'summarize';
+  private readonly countTokens: (message: ChatMessage) => number;
+
+  constructor(
+    private readonly chat: ChatAPI,
+    options: ConversationOptions = {},
+    snapshot?: ConversationSnapshot
+  ) {
+    const {
+      system,
+      contextTokens,
+      modelPricing,
+      reserveTokens,
+      trimStrategy = 'drop',
+      countTokens,
+      ...request
+    } = options;
+    const counter = new TokenCounter();
+
+    this.request = request;
+    this.contextTokens = contextTokens ?? modelPricing?.contextLength;
+    this.reserveTokens = reserveTokens ?? request.maxTokens ?? 1024;
+    this.trimStrategy = trimStrategy;
+    this.countTokens = countTokens ?? (message => counter.countMessage(message, request.model));
+
+    if (snapshot) {
+      this.entries = snapshot.messages.map(entry => ({ ...entry }));
+    } else if (system) {
+      this.entries.push({ message: { role: 'system', content: system }, pinned: true });
+    }
+  }
+
+  /**
+   * Current messages, in the order they are sent to the model
+   */
+  get messages(): ChatMessage[] {
+    return this.entries.map(entry => entry.message);
+  }
+
+  /**
+   * Estimated token count of the current messages
+   */
+  get tokenCount(): number {
+    return this.entries.reduce((total, entry) => total + this.countTokens(entry.message), 0);
+  }
+
+  /**
+   * Append a message without calling the model
+   */
+  append(message: ChatMessage, options?: { pinned?: boolean }): this {
+    this.entries.push({ message, pinned: options?.pinned || undefined });
+    return this;
+  }
+
+  /**
+   * Append a pinned system message (kept through trimming)
+   */
+  pin(content: string): this {
+    return this.append({ role: 'system', content }, { pinned: true });
+  }
+
+  /**
+   * Send a user message and append the assistant reply. If the request fails,
+   * the history is restored so the call can simply be retried.
+   */
+  async send(
+    content: ChatMessage['content'] | ChatMessage,
+    options?: RequestOptions
+  ): Promise<ChatCompletionResponse> {
+    const previous = [...this.entries];
+    this.append(toMessage(content));
+
+    try {
+      await this.trim(options);
+      const response = await this.chat.create({ ...this.request, messages: this.messages }, options);
+      const message = response.choices[0]?.message;
+      if (message) {
+        this.append(message);
+      }
+      return response;
+    } catch (error) {
+      this.entries = previous;
+      throw error;
+    }
+  }
+
+  /**
+   * Send a user message through the tool-calling loop, appending every
+   * assistant and tool message it produces
+   */
+  async runTools(
+    content: ChatMessage['content'] | ChatMessage,
+    params: Omit<RunToolsParams, 'messages'>,
+    options?: RequestOptions
+  ): Promise<RunToolsResult> {
+    const previous = [...this.entries];
+    this.append(toMessage(content));
+
+    try {
+      await this.trim(options);
+      const sent = this.entries.length;
+      const result = await this.chat.runTools({ ...this.request, ...params, messages: this.messages }, options);
+      result.messages.slice(sent).forEach(message => this.append(message));
+      return result;
+    } catch (error) {
+      this.entries = previous;
+      throw error;
+    }
+  }
+
+  /**
+   * Trim older turns until the history fits the token budget. Called
+   * automatically before every request; a no-op without a context size.
+   * The summary request suffixes an explicit `idempotencyKey` with `-summary`.
+   */
+  async trim(options?: RequestOptions): Promise<void> {
+    if (this.contextTokens === undefined) return;
+    const budget = this.contextTokens - this.reserveTokens;
+    if (this.tokenCount <= budget) return;
+
+    const removed: ChatMessage[] = [];
+    while (this.tokenCount > budget) {
+      const turn = this.oldestTurn();
+      if (!turn) break;
+      const inTurn = (index: number) => index >= turn.start && index < turn.end;
+      removed.push(...this.entries.filter((entry, index) => inTurn(index) && !entry.pinned).map(entry => entry.message));
+      this.entries = this.entries.filter((entry, index) => !inTurn(index) || entry.pinned);
+    }
+
+    if (this.trimStrategy === 'summarize' && removed.length > 0) {
+      const summary = await this.summarize(removed, options);
+      const index = this.entries.findIndex(entry => !entry.pinned);
+      this.entries.splice(index === -1 ? this.entries.length : index, 0, {
+        message: { role: 'system', content: SUMMARY_PREFIX + summary },
+      });
+    }
+  }
+
+  /**
+   * Remove every unpinned message
+   */
+  clear(): this {
+    this.entries = this.entries.filter(entry => entry.pinned);
+    return this;
+  }
+
+  /**
+   * Serialisable state for storage between requests
+   */
+  toJSON(): ConversationSnapshot {
+    return { messages: this.entries.map(entry => ({ ...entry })) };
+  }
+
+  /**
+   * Range of the oldest unpinned turn: a message and everything up to the next
+   * user message, so tool calls stay with their results. The latest message is
+   * never trimmed.
+   */
+  private oldestTurn(): { start: number; end: number } | undefined {
+    const last = this.entries.length - 1;
+    const start = this.entries.findIndex(entry => !entry.pinned);
+    if (start === -1 || start >= last) return undefined;
+
+    let end = start + 1;
+    while (end < last && (this.entries[end].pinned || this.entries[end].message.role !== 'user')) {
+      end++;
+    }
+    return { start, end };
+  }
+
+  private async summarize(messages: ChatMessage[], options?: RequestOptions): Promise<string> {
+    const transcript = messages
+      .map(message => `${message.role}: ${textOf(message)}`)
+      .join('\n');
+
+    return this.chat.complete([
+      {
+        role: 'system',
+        content: 'Summarize the conversation below in a few sentences. Keep names, facts, decisions and open questions.',
+      },
+      { role: 'user', content: transcript },
+    ], { model: this.request.model }, deriveIdempotencyKey(options, 'summary'));
+  }
+}
+
+function toMessage(content: ChatMessage['content'] | ChatMessage): ChatMessage {
+  return content !== null && typeof content === 'object' && !Array.isArray(content)
+    ? content
+    : { role: 'user', content };
+}
+
+function textOf(message: ChatMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  const text = (message.content ?? [])
+    .map(part => (part.type === 'text' ? part.text : `[${part.type}]`))
+    .join(' ');
+  return text || (message.toolCalls ?? []).map(call => `${call.function.name}(${call.function.arguments})`).join(' ');
+}
@@ -0,0 +1,188 @@
+import type { PricingAPI } from '../api/pricing';
+import type { EmbeddingResponse } from '../api/embeddings';
+import type { TranscriptionResponse } from '../api/audio';
+import type {
+  ChatCompletionResponse,
+  CostTrackingOptions,
+  ModelPricing,
+  PricingSnapshot,
+  RequestOptions,
+} from '../types';
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Provider implied by well-known model name prefixes
+ */
+const PROVIDER_PREFIXES: Array<[RegExp, string]> = [
+  [/^(gpt-|o\d|chatgpt-|text-embedding-|whisper-|dall-e|tts-)/i, 'openai'],
+  [/^claude/i, 'anthropic'],
+  [/^(mistral|mixtral|codestral|ministral|pixtral)/i, 'mistral'],
+  [/^gemini/i, 'gemini'],
+  [/^(command|embed-)/i, 'cohere'],
+];
+
+/**
+ * Per-token prices of a model, normalising the per-token and per-1M fields
+ */
+export function normalizePricing(pricing: ModelPricing): { input?: number; output?: number } {
+  const perToken = (per1M?: number, single?: number) => (per1M !== undefined ? per1M / 1_000_000 : single);
+  return {
+    input: perToken(pricing.inputPricePer1M, pricing.inputPricePerToken),
+    output: perToken(pricing.outputPricePer1M, pricing.outputPricePerToken),
+  };
+}
+
+/**
+ * Prices completed requests from token usage, fetching pricing tables on
+ * demand and caching them per provider. When a refresh fails, the stale
+ * table or the configured snapshot is used instead.
+ *
+ * @example
+ * ```typescript
+ * const response = await mql.chat.create({ model: 'gpt-4o', messages });
+ * const cost = await mql.costs.chatCost(response);
+ * ledger.charge(userId, cost ?? 0);
+ *
+ * // Save the tables for offline use
+ * fs.writeFileSync('pricing.json', JSON.stringify(mql.costs.snapshot()));
+ * ```
+ */
+export class CostCalculator {
+  private readonly cache = new Map<string, { models: ModelPricing[]; expiresAt: number }>();
+  private readonly pending = new Map<string, Promise<ModelPricing[]>>();
+
+  constructor(
+    private readonly pricing: PricingAPI,
+    private readonly options: CostTrackingOptions = {}
+  ) {}
+
+  /**
+   * Pricing for a model; dated variants (`gpt-4o-2024-08-06`) match their base entry
+   */
+  async getModelPricing(provider: string, model: string, options?: RequestOptions): Promise<ModelPricing | undefined> {
+    const models = await this.getTable(provider, options);
+    return models.find(m => m.model === model)
+      ?? models
+        .filter(m => model.startsWith(`${m.model}-`))
+        .sort((a, b) => b.model.length - a.model.length)[0];
+  }
+
+  /**
+   * Cost of a chat completion. The gateway-reported cost is used when present.
+   *
+   * @param provider - Defaults to the provider reported by the gateway, then one inferred from the model name
+   */
+  async chatCost(response: ChatCompletionResponse, provider?: string, options?: RequestOptions): Promise<number | null> {
+    if (response.mql?.costUsd != null) {
+      return response.mql.costUsd;
+    }
+    const model = response.mql?.model ?? response.model;
+    return this.tokenCost(
+      provider ?? response.mql?.provider ?? undefined,
+      model,
+      response.usage.promptTokens,
+      response.usage.completionTokens,
+      options
+    );
+  }
+
+  /**
+   * Cost of an embeddings response
+   */
+  async embeddingCost(response: EmbeddingResponse, provider?: string, options?: RequestOptions): Promise<number | null> {
+    return this.tokenCost(provider, response.model, response.usage.prompt_tokens, 0, options);
+  }
+
+  /**
+   * Cost of a transcription billed by tokens. Duration-billed transcriptions
+   * (`whisper-1`) cannot be priced from per-token tables and return null.
+   *
+   * @param model - Model the transcription was requested with (not echoed in the response)
+   */
+  async transcriptionCost(
+    response: TranscriptionResponse,
+    model: string,
+    provider?: string,
+    options?: RequestOptions
+  ): Promise<number | null> {
+    const usage = response.usage;
+    if (!usage || usage.type === 'duration' || usage.input_tokens === undefined) {
+      return null;
+    }
+    return this.tokenCost(provider, model, usage.input_tokens, usage.output_tokens ?? 0, options);
+  }
+
+  /**
+   * Drop cached tables so the next lookup refetches them
+   */
+  invalidate(provider?: string): void {
+    if (provider) {
+      this.cache.delete(provider);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * Currently cached tables, suitable for the `snapshot` option
+   */
+  snapshot(): PricingSnapshot {
+    const snapshot: PricingSnapshot = { ...this.options.snapshot };
+    for (const [provider, { models }] of this.cache) {
+      snapshot[provider] = models;
+    }
+    return snapshot;
+  }
+
+  private async tokenCost(
+    provider: string | undefined,
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    options?: RequestOptions
+  ): Promise<number | null> {
+    const resolved = provider ?? inferProvider(model) ?? this.options.defaultProvider;
+    if (!resolved) return null;
+
+    const pricing = await this.getModelPricing(resolved, model, options);
+    if (!pricing) return null;
+
+    const { input, output } = normalizePricing(pricing);
+    if (input === undefined || (outputTokens > 0 && output === undefined)) return null;
+    return inputTokens * input + outputTokens * (output ?? 0);
+  }
+
+  private async getTable(provider: string, options?: RequestOptions): Promise<ModelPricing[]> {
+    const cached = this.cache.get(provider);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.models;
+    }
+
+    // Concurrent lookups share one fetch
+    let request = this.pending.get(provider);
+    if (!request) {
+      request = this.pricing.getByProvider(provider, options)
+        .then(({ models }) => {
+          this.cache.set(provider, { models, expiresAt: Date.now() + (this.options.ttlMs ?? DEFAULT_TTL_MS) });
+          return models;
+        })
+        .finally(() => this.pending.delete(provider));
+      this.pending.set(provider, request);
+    }
+
+    try {
+      return await request;
+    } catch (error) {
+      const fallback = cached?.models ?? this.options.snapshot?.[provider];
+      if (fallback) {
+        return fallback;
+      }
+      throw error;
+    }
+  }
+}
+
+function inferProvider(model: string): string | undefined {
+  return PROVIDER_PREFIXES.find(([pattern]) => pattern.test(model))?.[1];
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { validateJsonSchema } from './json-schema';
+
+describe('validateJsonSchema', () => {
+  const person = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      age: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    },
+    required: ['name', 'age'],
+    additionalProperties: false,
+  };
+
+  it('accepts a valid value', () => {
+    expect(validateJsonSchema(person, { name: 'Ada', age: 36, tags: ['math'] })).toEqual([]);
+  });
+
+  it('reports every error with its path', () => {
+    expect(validateJsonSchema(person, { name: '', age: 'ten', tags: ['a', 1, 'c'], extra: true })).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.age: expected integer, got string',
+      '$.tags: must have at most 2 items',
+      '$.tags[1]: expected string, got number',
+      '$.extra: unexpected property',
+    ]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateJsonSchema(person, { name: 'Ada' })).toEqual(['$: missing required property "age"']);
+  });
+
+  it('does not find required or declared properties on the prototype', () => {
+    expect(validateJsonSchema({ type: 'object', required: ['toString'] }, {})).toEqual([
+      '$: missing required property "toString"',
+    ]);
+    expect(validateJsonSchema({ type: 'object', properties: {}, additionalProperties: false }, { constructor: 1 })).toEqual([
+      '$.constructor: unexpected property',
+    ]);
+  });
+
+  it('validates additional properties against a schema', () => {
+    const schema = { type: 'object', additionalProperties: { type: 'number' } };
+    expect(validateJsonSchema(schema, { a: 1, b: 'x' })).toEqual(['$.b: expected number, got string']);
+  });
+
+  it('checks enum and const values', () => {
+    expect(validateJsonSchema({ enum: ['x', 'y'] }, 'y')).toEqual([]);
+    expect(validateJsonSchema({ enum: ['x', 'y'] }, 'z')).toEqual(['$: must be one of "x", "y"']);
+    expect(validateJsonSchema({ const: 1 }, 2)).toEqual(['$: must equal 1']);
+  });
+
+  it('compares enum and const values structurally', () => {
+    expect(validateJsonSchema({ const: { a: 1, b: [1, 2] } }, { b: [1, 2], a: 1 })).toEqual([]);
+    expect(validateJsonSchema({ const: { a: 1 } }, { a: 1, b: 2 })).toEqual(['$: must equal {"a":1}']);
+    expect(validateJsonSchema({ enum: ['x', { y: 1 }] }, { y: 1 })).toEqual([]);
+    expect(validateJsonSchema({ enum: [[1, 2]] }, [2, 1])).toEqual(['$: must be one of [1,2]']);
+  });
+
+  it('supports nullable types and type unions', () => {
+    const schema = { type: ['string', 'null'] };
+    expect(validateJsonSchema(schema, null)).toEqual([]);
+    expect(validateJsonSchema(schema, 1)).toEqual(['$: expected string | null, got number']);
+  });
+
+  it('checks number and string bounds', () => {
+    const schema = { type: 'number', exclusiveMinimum: 0, maximum: 1 };
+    expect(validateJsonSchema(schema, 0)).toEqual(['$: must be > 0']);
+    expect(validateJsonSchema(schema, 2)).toEqual(['$: must be <= 1']);
+    expect(validateJsonSchema({ type: 'string', pattern: '^[a-z]+$' }, 'ABC')).toEqual(['$: must match pattern ^[a-z]+$']);
+  });
+
+  it('supports anyOf, oneOf and allOf', () => {
+    const anyOf = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+    expect(validateJsonSchema(anyOf, 1)).toEqual([]);
+    expect(validateJsonSchema(anyOf, true)).toEqual(['$: does not match any of the allowed schemas']);
+
+    const oneOf = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+    expect(validateJsonSchema(oneOf, 1.5)).toEqual([]);
+    expect(validateJsonSchema(oneOf, 1)).toEqual(['$: must match exactly one schema, matched 2']);
+
+    const allOf = { allOf: [{ type: 'integer' }, { minimum: 10 }] };
+    expect(validateJsonSchema(allOf, 5)).toEqual(['$: must be >= 10']);
+  });
+
+  it('resolves local $refs', () => {
+    const schema = {
+      type: 'object',
+      properties: { home: { $ref: '#/$defs/Address' } },
+      $defs: { Address: { type: 'object', required: ['city'] } },
+    };
+    expect(validateJsonSchema(schema, { home: { city: 'Paris' } })).toEqual([]);
+    expect(validateJsonSchema(schema, { home: {} })).toEqual(['$.home: missing required property "city"']);
+    expect(validateJsonSchema({ $ref: '#/$defs/Missing' }, 1)).toEqual(['$: cannot resolve $ref #/$defs/Missing']);
+    expect(validateJsonSchema({ $ref: '#/constructor' }, 1)).toEqual(['$: cannot resolve $ref #/constructor']);
+  });
+
+  it('handles boolean schemas', () => {
+    const schema = { type: 'object', properties: { any: true, none: false } };
+    expect(validateJsonSchema(schema, { any: [1] })).toEqual([]);
+    expect(validateJsonSchema(schema, { none: 1 })).toEqual(['$.none: no value is allowed here']);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Minimal JSON Schema validator covering the keywords used by structured outputs:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * anyOf / oneOf / allOf, string / number / array bounds, pattern, and local
+ * `$ref`s into `$defs` / `definitions`.
+ */
+
+type Schema = Record<string, unknown>;
+
+/**
+ * Validate a value against a JSON schema
+ *
+ * @returns Human-readable errors, empty when the value is valid
+ *
+ * @example
+ * ```typescript
+ * const errors = validateJsonSchema(
+ *   { type: 'object', properties: { age: { type: 'integer' } }, required: ['age'] },
+ *   { age: 'ten' }
+ * );
+ * // ['$.age: expected integer, got string']
+ * ```
+ */
+export function validateJsonSchema(schema: Schema, value: unknown): string[] {
+  const errors: string[] = [];
+  validate(schema, value, '$', schema, errors);
+  return errors;
+}
+
+function validate(schema: Schema | boolean, value: unknown, path: string, root: Schema, errors: string[]): void {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(schema.$ref, root);
+    if (!target) {
+      errors.push(`${path}: cannot resolve $ref ${schema.$ref}`);
+      return;
+    }
+    validate(target, value, path, root, errors);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some(type => matchesType(type, value))) {
+      errors.push(`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (hasOwn(schema, 'const') && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf as Schema[]) {
+      validate(sub, value, path, root, errors);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const passing = (schema.anyOf as Schema[]).filter(sub => validateJsonSchemaAt(sub, value, path, root).length === 0);
+    if (passing.length === 0) {
+      errors.push(`${path}: does not match any of the allowed schemas`);
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const passing = (schema.oneOf as Schema[]).filter(sub => validateJsonSchemaAt(sub, value, path, root).length === 0);
+    if (passing.length !== 1) {
+      errors.push(`${path}: must match exactly one schema, matched ${passing.length}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${path}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => validate(schema.items as Schema, item, `${path}[${index}]`, root, errors));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = (schema.properties ?? {}) as Record<string, Schema>;
+
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!hasOwn(value, key)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      const childPath = `${path}.${key}`;
+      if (hasOwn(properties, key)) {
+        validate(properties[key], item, childPath, root, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath}: unexpected property`);
+      } else if (isObject(schema.additionalProperties)) {
+        validate(schema.additionalProperties as Schema, item, childPath, root, errors);
+      }
+    }
+  }
+}
+
+function validateJsonSchemaAt(schema: Schema, value: unknown, path: string, root: Schema): string[] {
+  const errors: string[] = [];
+  validate(schema, value, path, root, errors);
+  return errors;
+}
+
+/**
+ * Resolve a local reference such as `#/$defs/Address`
+ */
+function resolveRef(ref: string, root: Schema): Schema | undefined {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+
+  let target: unknown = root;
+  for (const part of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(part.replace(/~1/g, '/').replace(/~0/g, '~'));
+    if (!isObject(target) || !hasOwn(target, key)) return undefined;
+    target = target[key];
+  }
+  return isObject(target) ? target : undefined;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Own properties only, so names such as `constructor` or `toString` are not
+ * found on the prototype
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Structural equality of JSON values; object key order does not matter
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b)
+      && a.length === b.length
+      && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length
+      && keys.every(key => hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
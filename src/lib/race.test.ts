@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MQLRaceError } from '../errors';
+import { raceCompletion } from './race';
+import type { ChatCompletionRequest, ChatCompletionResponse, RequestOptions } from '../types';
+
+function completion(model: string): ChatCompletionResponse {
+  return {
+    id: `chatcmpl-${model}`,
+    object: 'chat.completion',
+    created: 0,
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: model }, finishReason: 'stop' }],
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+  };
+}
+
+/**
+ * A `create` whose calls settle when the test says so; each call rejects
+ * with an AbortError once its signal fires
+ */
+function deferredCreate() {
+  const calls: Array<{
+    request: ChatCompletionRequest;
+    options?: RequestOptions;
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }> = [];
+  const create = vi.fn((request: ChatCompletionRequest, options?: RequestOptions) =>
+    new Promise<ChatCompletionResponse>((resolve, reject) => {
+      calls.push({ request, options, resolve: () => resolve(completion(request.model ?? '')), reject });
+      options?.signal?.addEventListener('abort', () => {
+        const error = new Error('aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    })
+  );
+  return { create, calls };
+}
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+describe('raceCompletion', () => {
+  it('keeps the first response and aborts the other models', async () => {
+    const { create, calls } = deferredCreate();
+    const result = raceCompletion(create, { models: ['a', 'b', 'c'], messages });
+
+    expect(calls.map(call => call.request.model)).toEqual(['a', 'b', 'c']);
+    calls[1].resolve();
+
+    const response = await result;
+    expect(response.model).toBe('b');
+    expect(response.race.model).toBe('b');
+    expect(response.race.index).toBe(1);
+    expect(response.race.attempts.map(attempt => attempt.status)).toEqual(['cancelled', 'won', 'cancelled']);
+    expect(calls[0].options?.signal?.aborted).toBe(true);
+    expect(calls[1].options?.signal?.aborted).toBe(false);
+  });
+
+  it('suffixes an explicit idempotency key with the model position', async () => {
+    const { create, calls } = deferredCreate();
+    const result = raceCompletion(create, { models: ['a', 'b'], messages }, { idempotencyKey: 'order-1' });
+
+    expect(calls.map(call => call.options?.idempotencyKey)).toEqual(['order-1-0', 'order-1-1']);
+    calls[0].resolve();
+    await result;
+  });
+
+  it('rejects with every failure when all models fail', async () => {
+    const create = vi.fn((request: ChatCompletionRequest) => Promise.reject(new Error(`${request.model} failed`)));
+
+    const error = await raceCompletion(create, { models: ['a', 'b'], messages }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MQLRaceError);
+    expect((error as MQLRaceError).errors.map(e => e.model)).toEqual(['a', 'b']);
+  });
+
+  it('starts backups only after the hedge delay', async () => {
+    vi.useFakeTimers();
+    try {
+      const { create, calls } = deferredCreate();
+      const result = raceCompletion(create, { models: ['a', 'b'], messages, hedgeDelayMs: 100 });
+
+      expect(calls).toHaveLength(1);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(calls).toHaveLength(2);
+
+      calls[0].resolve();
+      expect((await result).race.model).toBe('a');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('cancels every model once the caller aborts', async () => {
+    const { create, calls } = deferredCreate();
+    const controller = new AbortController();
+    const result = raceCompletion(create, { models: ['a', 'b'], messages }, { signal: controller.signal });
+
+    const reason = new Error('user cancelled');
+    controller.abort(reason);
+    await expect(result).rejects.toThrow('aborted');
+    expect(calls.every(call => call.options?.signal?.aborted)).toBe(true);
+  });
+
+  it('sends no request when the signal is already aborted', async () => {
+    const { create } = deferredCreate();
+    const reason = new Error('user cancelled');
+    const controller = new AbortController();
+    controller.abort(reason);
+
+    await expect(raceCompletion(create, { models: ['a', 'b'], messages }, { signal: controller.signal }))
+      .rejects.toBe(reason);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('reports an AbortError when the signal was aborted without a reason error', async () => {
+    const { create } = deferredCreate();
+
+    const error = await raceCompletion(create, { models: ['a'], messages }, { signal: AbortSignal.abort('stop') })
+      .catch((e: unknown) => e);
+    expect((error as Error).name).toBe('AbortError');
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,267 @@
+import { MQLRaceError } from '../errors';
+import { deriveIdempotencyKey } from '../retry';
+import type { ChatCompletionStream } from './chat-stream';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  RequestOptions,
+  StreamOptions,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RaceParams extends Omit<ChatCompletionRequest, 'model' | 'stream'> {
+  /** Models to send the request to, in order of preference */
+  models: string[];
+  /**
+   * Wait this long before starting the next model while earlier ones are still
+   * running. 0 (default) starts every model at once; a delay hedges the request,
+   * so backups only fire when the primary is slow. A failed model starts the
+   * next one immediately.
+   */
+  hedgeDelayMs?: number;
+  /** Called as soon as a model wins, before its full response is read (useful with streams) */
+  onWinner?: (outcome: RaceOutcome) => void;
+}
+
+export interface RaceAttempt {
+  model: string;
+  /** Time from the start of the race until this model was started */
+  startedAfterMs: number;
+  status: 'pending' | 'won' | 'failed' | 'cancelled';
+  /** Why the model failed */
+  error?: unknown;
+}
+
+export interface RaceOutcome {
+  /** Model that answered first */
+  model: string;
+  /** Position of the winning model in `models` */
+  index: number;
+  /** Time from the start of the race until the winner answered (first chunk for streams) */
+  latencyMs: number;
+  /** Every model that was started */
+  attempts: RaceAttempt[];
+}
+
+export interface RacedChatCompletion extends ChatCompletionResponse {
+  race: RaceOutcome;
+}
+
+// ============================================================================
+// Racing
+// ============================================================================
+
+/**
+ * Send a chat completion to several models and keep the first successful
+ * response. The other requests are cancelled through their AbortSignal.
+ * An explicit `idempotencyKey` is suffixed with each model's position.
+ *
+ * @param create - Function performing one chat completion (`ChatAPI.create`)
+ */
+export async function raceCompletion(
+  create: (request: ChatCompletionRequest, options?: RequestOptions) => Promise<ChatCompletionResponse>,
+  params: RaceParams,
+  options?: RequestOptions
+): Promise<RacedChatCompletion> {
+  const { models, hedgeDelayMs, onWinner, ...request } = params;
+
+  const { value, outcome } = await race(
+    models,
+    hedgeDelayMs ?? 0,
+    options?.signal,
+    (model, signal, index) => create({ ...request, model }, { ...deriveIdempotencyKey(options, index), signal })
+  );
+  onWinner?.(outcome);
+  return { ...value, race: outcome };
+}
+
+/**
+ * Stream from several models and continue with the first one to send a chunk;
+ * the other streams are aborted. Once a model has won, a failure later in its
+ * stream is not retried on the others.
+ *
+ * @param stream - Function starting one streaming completion (`ChatAPI.stream`)
+ */
+export async function* raceChunks(
+  stream: (request: ChatCompletionRequest, options?: StreamOptions) => ChatCompletionStream,
+  params: RaceParams,
+  options?: StreamOptions
+): AsyncGenerator<ChatCompletionChunk, void, undefined> {
+  const { models, hedgeDelayMs, onWinner, ...request } = params;
+  // Callbacks only see the winning stream
+  const { onChunk, onComplete, onError, ...streamOptions } = options ?? {};
+
+  const reportError = (error: unknown) => {
+    if (onError && error instanceof Error) {
+      onError({ error: error.message, status: (error as { status?: number }).status });
+    }
+  };
+
+  const { value: winner, outcome } = await race(
+    models,
+    hedgeDelayMs ?? 0,
+    options?.signal,
+    async (model, signal, index) => {
+      const source = stream({ ...request, model }, { ...deriveIdempotencyKey(streamOptions, index), signal });
+      const iterator = source[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      return { source, iterator, first };
+    },
+    // A stream that answered after the winner is closed
+    ({ iterator }) => { void iterator.return?.(); }
+  ).catch((error: unknown) => {
+    reportError(error);
+    throw error;
+  });
+  onWinner?.(outcome);
+
+  // The race no longer forwards the caller's abort once a model has won
+  const onAbort = () => winner.source.abort(options?.signal?.reason);
+  options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+  let text = '';
+  try {
+    let result = winner.first;
+    while (!result.done) {
+      onChunk?.(result.value);
+      text += result.value.choices[0]?.delta.content ?? '';
+      yield result.value;
+      result = await winner.iterator.next();
+    }
+    onComplete?.(text);
+  } catch (error) {
+    reportError(error);
+    throw error;
+  } finally {
+    options?.signal?.removeEventListener('abort', onAbort);
+    await winner.iterator.return?.();
+  }
+}
+
+/**
+ * Start `attempt` for each model (all at once, or one every `hedgeDelayMs`)
+ * and resolve with the first success, aborting the rest
+ *
+ * @param discard - Releases a result that arrived after the race was decided
+ */
+function race<T>(
+  models: string[],
+  hedgeDelayMs: number,
+  signal: AbortSignal | undefined,
+  attempt: (model: string, signal: AbortSignal, index: number) => Promise<T>,
+  discard?: (value: T) => void
+): Promise<{ value: T; outcome: RaceOutcome }> {
+  if (models.length === 0) {
+    return Promise.reject(new Error('race requires at least one model'));
+  }
+  if (signal?.aborted) {
+    return Promise.reject(abortError(signal));
+  }
+
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const attempts: RaceAttempt[] = [];
+    const controllers: AbortController[] = [];
+    let next = 0;
+    let running = 0;
+    let settled = false;
+    // No further models are started once the caller aborts
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cancelOthers = (winner?: number) => {
+      controllers.forEach((controller, i) => {
+        if (i === winner) return;
+        if (attempts[i].status === 'pending') attempts[i].status = 'cancelled';
+        controller.abort();
+      });
+    };
+
+    const settle = () => {
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    // Caller aborts cancel every model; the race rejects once they have all stopped
+    const onAbort = () => {
+      clearTimeout(timer);
+      stopped = true;
+      cancelOthers();
+    };
+
+    const start = () => {
+      clearTimeout(timer);
+      if (settled || next >= models.length) return;
+
+      const index = next++;
+      const model = models[index];
+      const controller = new AbortController();
+      const record: RaceAttempt = { model, startedAfterMs: Date.now() - startedAt, status: 'pending' };
+      controllers.push(controller);
+      attempts.push(record);
+      running++;
+
+      attempt(model, controller.signal, index).then(
+        (value) => {
+          running--;
+          if (settled) {
+            discard?.(value);
+            return;
+          }
+          settle();
+          record.status = 'won';
+          cancelOthers(index);
+          resolve({ value, outcome: { model, index, latencyMs: Date.now() - startedAt, attempts } });
+        },
+        (error: unknown) => {
+          running--;
+          if (settled) return;
+          if (record.status === 'pending') {
+            record.status = 'failed';
+            record.error = error;
+          }
+
+          if (next < models.length && !stopped) {
+            start();
+          } else if (running === 0) {
+            settle();
+            if (stopped) {
+              reject(error);
+            } else {
+              reject(new MQLRaceError(
+                `All ${models.length} models failed`,
+                attempts.map(a => ({ model: a.model, error: a.error }))
+              ));
+            }
+          }
+        }
+      );
+
+      if (hedgeDelayMs > 0 && next < models.length && !stopped) {
+        timer = setTimeout(start, hedgeDelayMs);
+      }
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    do {
+      start();
+    } while (hedgeDelayMs === 0 && next < models.length && !settled);
+  });
+}
+
+/**
+ * Error to reject with when the caller's AbortSignal fired before the race started
+ */
+function abortError(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error) {
+    return signal.reason;
+  }
+  const error = new Error('Race aborted');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,177 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MQL } from '../index';
+import { FileCacheStore, MemoryCacheStore, ResponseCache, stableStringify } from './response-cache';
+import type { MQLClientOptions } from '../types';
+
+const embedding = {
+  object: 'list',
+  data: [{ object: 'embedding', embedding: [0.1, 0.2], index: 0 }],
+  model: 'text-embedding-3-small',
+  usage: { prompt_tokens: 1, total_tokens: 1 },
+};
+
+/**
+ * Client answering every request with an embedding response; `fetch.mock.calls` records what reached the network
+ */
+function createMQL(options?: MQLClientOptions) {
+  const fetch = vi.fn(async () => new Response(JSON.stringify(embedding), { headers: { 'content-type': 'application/json' } }));
+  const mql = new MQL({ apiKey: 'mql-tenant-a', cache: true, ...options, fetch: fetch as typeof globalThis.fetch });
+  return { mql, fetch };
+}
+
+const request = { model: 'text-embedding-3-small', input: 'hello' };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry when full', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set('a', 1);
+    store.set('b', 2);
+    store.get('a');
+    store.set('c', 3);
+
+    expect(store.get('a')).toBe(1);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBe(3);
+  });
+
+  it('expires entries after their TTL', () => {
+    vi.useFakeTimers();
+    const store = new MemoryCacheStore();
+    store.set('short', 1, 1000);
+    store.set('forever', 2);
+
+    vi.advanceTimersByTime(1000);
+    expect(store.get('short')).toBeUndefined();
+    expect(store.get('forever')).toBe(2);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mql-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps entries across instances', async () => {
+    await new FileCacheStore({ directory }).set('chat:abc/def', { answer: 42 });
+    expect(await new FileCacheStore({ directory }).get('chat:abc/def')).toEqual({ answer: 42 });
+  });
+
+  it('treats missing, corrupt and expired entries as misses', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = new FileCacheStore({ directory });
+    expect(await store.get('missing')).toBeUndefined();
+
+    await store.set('expiring', 'value', 1000);
+    vi.advanceTimersByTime(1000);
+    expect(await store.get('expiring')).toBeUndefined();
+    expect(await readdir(directory)).toEqual([]);
+
+    await writeFile(join(directory, 'corrupt.json'), '{not json');
+    expect(await store.get('corrupt')).toBeUndefined();
+  });
+
+  it('deletes and clears entries', async () => {
+    const store = new FileCacheStore({ directory });
+    await store.set('a', 1);
+    await store.set('b', 2);
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+    await store.clear();
+    expect(await readdir(directory)).toEqual([]);
+  });
+});
+
+describe('ResponseCache', () => {
+  it('serves a repeated request from the cache', async () => {
+    const { mql, fetch } = createMQL();
+
+    const first = await mql.embeddings.create(request);
+    const second = await mql.embeddings.create({ input: 'hello', model: 'text-embedding-3-small' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect([first.cacheHit, second.cacheHit]).toEqual([false, true]);
+    expect(second.data).toEqual(first.data);
+  });
+
+  it('never serves one tenant the responses cached for another', async () => {
+    const store = new MemoryCacheStore();
+    const tenantA = createMQL({ cache: { store } });
+    const tenantB = createMQL({ apiKey: 'mql-tenant-b', cache: { store } });
+    const otherGateway = createMQL({ baseUrl: 'https://eu.api.test', cache: { store } });
+
+    await tenantA.mql.embeddings.create(request);
+    const b = await tenantB.mql.embeddings.create(request);
+    const eu = await otherGateway.mql.embeddings.create(request);
+    const override = await tenantA.mql.embeddings.create(request, { headers: { Authorization: 'Bearer mql-tenant-c' } });
+
+    expect([b.cacheHit, eu.cacheHit, override.cacheHit]).toEqual([false, false, false]);
+    expect(tenantB.fetch).toHaveBeenCalledTimes(1);
+    expect(otherGateway.fetch).toHaveBeenCalledTimes(1);
+    expect(store.size).toBe(4);
+  });
+
+  it('keys on the credential, the base URL and the normalised body', async () => {
+    const cache = new ResponseCache();
+    const identity = 'https://api.test\nBearer mql-a';
+
+    expect(await cache.key('embeddings', { a: 1, b: [1, 2] }, identity))
+      .toBe(await cache.key('embeddings', { b: [1, 2], a: 1, c: undefined }, identity));
+    expect(await cache.key('embeddings', { a: 1 }, identity))
+      .not.toBe(await cache.key('embeddings', { a: 1 }, 'https://api.test\nBearer mql-b'));
+    expect(await cache.key('embeddings', { a: 1 }, identity)).not.toBe(await cache.key('chat', { a: 1 }, identity));
+    expect(await new ResponseCache({ namespace: 'app' }).key('chat', {}, identity)).toMatch(/^app:chat:/);
+  });
+
+  it('expires responses after the TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { mql, fetch } = createMQL({ cache: { ttlMs: 1000 } });
+
+    await mql.embeddings.create(request);
+    vi.advanceTimersByTime(999);
+    expect((await mql.embeddings.create(request)).cacheHit).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect((await mql.embeddings.create(request)).cacheHit).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('follows per-request cache options', async () => {
+    const { mql, fetch } = createMQL();
+
+    await mql.embeddings.create(request, { cache: false });
+    await mql.embeddings.create(request);
+    await mql.embeddings.create(request, { cache: { refresh: true } });
+    expect((await mql.embeddings.create(request)).cacheHit).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('sends the request as usual when the store fails', async () => {
+    const store = {
+      get: () => Promise.reject(new Error('store down')),
+      set: () => { throw new Error('store down'); },
+      delete: () => undefined,
+    };
+    const { mql, fetch } = createMQL({ cache: { store } });
+
+    expect((await mql.embeddings.create(request)).data).toEqual([{ object: 'embedding', embedding: [0.1, 0.2], index: 0 }]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('stableStringify', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(stableStringify({ b: 1, a: { d: undefined, c: [2, 1] } })).toBe('{"a":{"c":[2,1]},"b":1}');
+  });
+});
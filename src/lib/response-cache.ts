@@ -0,0 +1,303 @@
+import type { ResponseInterceptor } from '../client';
+import type { CacheStore, RequestCacheOptions, ResponseCacheOptions } from '../types';
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Header set on responses served from the cache
+ */
+export const CACHE_HIT_HEADER = 'x-mql-cache';
+
+/**
+ * What is stored per request: the raw body plus the headers the SDK reads
+ */
+interface CachedResponse {
+  body: string;
+  headers: Record<string, string>;
+  storedAt: number;
+}
+
+/** Requests that can be cached */
+export type CacheScope = 'chat' | 'embeddings';
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * In-memory store that evicts the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number | null }>();
+  private readonly maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: unknown, ttlMs?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : null });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** Number of entries held, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Store keeping one JSON file per entry in a directory (Node.js only), so
+ * cached responses survive restarts
+ *
+ * @example
+ * ```typescript
+ * const mql = new MQL({
+ *   apiKey: 'mql-...',
+ *   cache: { store: new FileCacheStore({ directory: '.cache/mql' }), ttlMs: 7 * 24 * 3600_000 },
+ * });
+ * ```
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<unknown> {
+    const fs = await import('node:fs/promises');
+    let entry: { value: unknown; expiresAt: number | null };
+    try {
+      entry = JSON.parse(await fs.readFile(await this.pathFor(key), 'utf8'));
+    } catch {
+      // Missing or unreadable entries are misses
+      return undefined;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const path = await this.pathFor(key);
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a partial file
+    const temp = `${path}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeFile(temp, JSON.stringify({ value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : null }));
+    await fs.rename(temp, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(await this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const { join } = await import('node:path');
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => fs.rm(join(this.directory, file), { force: true })));
+  }
+
+  private async pathFor(key: string): Promise<string> {
+    const { join } = await import('node:path');
+    return join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+}
+
+// ============================================================================
+// Response cache
+// ============================================================================
+
+/**
+ * Serves repeated requests from a store. Requests are keyed on their
+ * normalised body (key order and unset fields do not matter) together with
+ * the base URL and credential they are sent with, so clients sharing a store
+ * never see each other's responses. Failures of the store never fail a
+ * request; it is then sent as usual.
+ *
+ * @example
+ * ```typescript
+ * const mql = new MQL({ apiKey: 'mql-...', cache: true });
+ *
+ * const first = await mql.embeddings.create({ model: 'text-embedding-3-small', input: 'hello' });
+ * const second = await mql.embeddings.create({ model: 'text-embedding-3-small', input: 'hello' });
+ * console.log(first.cacheHit, second.cacheHit); // false true
+ *
+ * await mql.cache?.clear();
+ * ```
+ */
+export class ResponseCache {
+  /** The store responses are kept in */
+  readonly store: CacheStore;
+
+  constructor(private readonly options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+  }
+
+  /**
+   * Interceptor that serves the request from the cache, or undefined when the
+   * request should not be cached
+   *
+   * @param cacheable - Whether this request is cached without an explicit opt-in
+   * @param control - Per-request `cache` option
+   */
+  interceptor(
+    scope: CacheScope,
+    body: unknown,
+    cacheable: boolean,
+    control?: boolean | RequestCacheOptions
+  ): ResponseInterceptor | undefined {
+    if (control === false) return undefined;
+    if (control === undefined && (!cacheable || this.options[scope] === false)) return undefined;
+
+    const { ttlMs = this.options.ttlMs ?? DEFAULT_TTL_MS, refresh = false } = typeof control === 'object' ? control : {};
+
+    return async (send, identity) => {
+      const key = await this.key(scope, body, identity);
+
+      if (!refresh) {
+        const cached = await Promise.resolve()
+          .then(() => this.store.get(key))
+          .catch(() => undefined);
+        if (isCachedResponse(cached)) {
+          return new Response(cached.body, {
+            status: 200,
+            headers: { ...cached.headers, [CACHE_HIT_HEADER]: 'hit' },
+          });
+        }
+      }
+
+      const response = await send();
+      if (response.ok && response.headers.get('content-type')?.includes('json')) {
+        const entry: CachedResponse = {
+          body: await response.clone().text(),
+          headers: storedHeaders(response.headers),
+          storedAt: Date.now(),
+        };
+        await Promise.resolve()
+          .then(() => this.store.set(key, entry, ttlMs))
+          .catch(() => undefined);
+      }
+      return response;
+    };
+  }
+
+  /**
+   * Cache key of a request body (as sent to the API)
+   *
+   * @param identity - Base URL and credential the request is sent with, as passed to the interceptor
+   */
+  async key(scope: CacheScope, body: unknown, identity: string): Promise<string> {
+    const prefix = this.options.namespace ? `${this.options.namespace}:` : '';
+    const [owner, request] = await Promise.all([digest(identity), digest(stableStringify(body))]);
+    return `${prefix}${scope}:${owner}:${request}`;
+  }
+
+  /**
+   * Remove one entry
+   */
+  async delete(scope: CacheScope, body: unknown, identity: string): Promise<void> {
+    await this.store.delete(await this.key(scope, body, identity));
+  }
+
+  /**
+   * Remove every entry, if the store supports it
+   */
+  async clear(): Promise<void> {
+    await this.store.clear?.();
+  }
+}
+
+/**
+ * Whether a response was served by `ResponseCache`
+ */
+export function isCacheHit(response: Response): boolean {
+  return response.headers.get(CACHE_HIT_HEADER) === 'hit';
+}
+
+function isCachedResponse(value: unknown): value is CachedResponse {
+  return typeof value === 'object' && value !== null
+    && typeof (value as CachedResponse).body === 'string'
+    && typeof (value as CachedResponse).headers === 'object';
+}
+
+/**
+ * Headers the SDK reads from responses: content type and gateway metadata
+ */
+function storedHeaders(headers: Headers): Record<string, string> {
+  const kept: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (name === 'content-type' || name.startsWith('x-mql-')) {
+      kept[name] = value;
+    }
+  });
+  return kept;
+}
+
+/**
+ * JSON with sorted keys and unset fields dropped, so equivalent requests match
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      return item;
+    }
+    return Object.fromEntries(Object.entries(item)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+  });
+}
+
+/**
+ * Hex digest of a string: SHA-256 where Web Crypto is available
+ */
+export async function digest(text: string): Promise<string> {
+  const subtle = (globalThis as { crypto?: { subtle?: SubtleCrypto } }).crypto?.subtle;
+  if (subtle) {
+    const digest = await subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Fallback for runtimes without Web Crypto: two FNV-1a passes with different seeds
+  const fnv = (seed: number) => {
+    let h = seed;
+    for (let i = 0; i < text.length; i++) {
+      h ^= text.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0');
+  };
+  return fnv(0x811c9dc5) + fnv(0x2166136b) + text.length.toString(16);
+}
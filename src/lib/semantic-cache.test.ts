@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MQL } from '../index';
+import { MemoryVectorStore, type SemanticCacheOptions } from './semantic-cache';
+import type { ChatMessage } from '../types';
+
+/** Embeddings of the prompts used below; cosine similarity to "reset password" in the comments */
+const vectors: Record<string, number[]> = {
+  'How do I reset my password?': [1, 0],
+  'How can I reset my password?': [0.95, 0.312], // 0.95
+  'How do I change my email?': [0.8, 0.6], // 0.8
+  'What is the capital of France?': [0, 1], // 0
+};
+
+/**
+ * Client whose embeddings come from `vectors` (other prompts fail with 400) and
+ * whose chat completions answer "answer N"; `counts` tracks the calls per endpoint
+ */
+function createCache(options?: SemanticCacheOptions, apiKey = 'mql-a', reply?: Record<string, unknown>) {
+  const counts = { chat: 0, embeddings: 0 };
+  const fetch = vi.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body)) as { input?: string };
+    let data: unknown;
+    if (String(url).endsWith('/v1/embeddings')) {
+      counts.embeddings++;
+      if (!vectors[body.input ?? '']) {
+        return new Response(JSON.stringify({ error: 'unsupported input' }), { status: 400, headers: { 'content-type': 'application/json' } });
+      }
+      data = { object: 'list', data: [{ object: 'embedding', embedding: vectors[body.input ?? ''], index: 0 }], model: 'e', usage: {} };
+    } else {
+      counts.chat++;
+      data = {
+        id: `chatcmpl-${counts.chat}`,
+        object: 'chat.completion',
+        created: 1,
+        model: 'gpt-4o',
+        choices: [{ index: 0, message: { role: 'assistant', content: `answer ${counts.chat}` }, finish_reason: 'stop', ...reply }],
+        usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+      };
+    }
+    return new Response(JSON.stringify(data), { headers: { 'content-type': 'application/json' } });
+  });
+  const mql = new MQL({ apiKey, fetch: fetch as typeof globalThis.fetch });
+  return { cache: mql.semanticCache(options), counts, fetch };
+}
+
+const ask = (question: string, system?: string): { messages: ChatMessage[] } => ({
+  messages: [
+    ...(system ? [{ role: 'system' as const, content: system }] : []),
+    { role: 'user', content: question },
+  ],
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('SemanticCache', () => {
+  it('reuses the response for a prompt above the similarity threshold', async () => {
+    const { cache, counts } = createCache();
+
+    const first = await cache.create(ask('How do I reset my password?'));
+    const second = await cache.create(ask('How can I reset my password?'));
+
+    expect(first).toMatchObject({ cacheHit: false, similarity: null });
+    expect(second.cacheHit).toBe(true);
+    expect(second.similarity).toBeCloseTo(0.95, 2);
+    expect(second.choices[0].message.content).toBe('answer 1');
+    expect(counts.chat).toBe(1);
+  });
+
+  it('calls the model for a prompt below the threshold', async () => {
+    const { cache, counts } = createCache();
+
+    await cache.create(ask('How do I reset my password?'));
+    const response = await cache.create(ask('How do I change my email?'));
+
+    expect(response.cacheHit).toBe(false);
+    expect(response.similarity).toBeCloseTo(0.8, 2);
+    expect(response.choices[0].message.content).toBe('answer 2');
+    expect(counts.chat).toBe(2);
+  });
+
+  it('follows a custom threshold', async () => {
+    const { cache } = createCache({ threshold: 0.75 });
+
+    await cache.create(ask('How do I reset my password?'));
+    expect((await cache.create(ask('How do I change my email?'))).cacheHit).toBe(true);
+    expect((await cache.create(ask('What is the capital of France?'))).cacheHit).toBe(false);
+  });
+
+  it('only reuses responses for the same context and proxy key', async () => {
+    const store = new MemoryVectorStore();
+    const { cache } = createCache({ store });
+    const { cache: otherKey } = createCache({ store }, 'mql-b');
+
+    await cache.create(ask('How do I reset my password?', 'You are a support agent'));
+    expect((await cache.create(ask('How do I reset my password?', 'You are a pirate'))).cacheHit).toBe(false);
+    expect((await otherKey.create(ask('How do I reset my password?', 'You are a support agent'))).cacheHit).toBe(false);
+    expect((await cache.create(ask('How do I reset my password?', 'You are a support agent'))).cacheHit).toBe(true);
+  });
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { cache } = createCache({ ttlMs: 1000 });
+
+    await cache.create(ask('How do I reset my password?'));
+    vi.advanceTimersByTime(1000);
+    expect((await cache.create(ask('How do I reset my password?'))).cacheHit).toBe(false);
+  });
+
+  it('does not store truncated responses', async () => {
+    const { cache, counts } = createCache({}, 'mql-a', { finish_reason: 'length' });
+
+    await cache.create(ask('How do I reset my password?'));
+    await cache.create(ask('How do I reset my password?'));
+    expect(counts.chat).toBe(2);
+  });
+
+  it('removes invalidated prompts', async () => {
+    const { cache } = createCache();
+
+    await cache.create(ask('How do I reset my password?'));
+    expect(await cache.invalidate({ prompt: '  How do I reset   my password? ' })).toBe(1);
+    expect((await cache.create(ask('How do I reset my password?'))).cacheHit).toBe(false);
+  });
+
+  it('sends the embedding lookup with a derived idempotency key', async () => {
+    const { cache, fetch } = createCache();
+
+    await cache.create(ask('How do I reset my password?'), { idempotencyKey: 'ask-1' });
+    expect(fetch.mock.calls.map(([url, init]) =>
+      [String(url).replace('https://api.metriqual.com', ''), (init?.headers as Record<string, string>)['Idempotency-Key']]
+    )).toEqual([['/v1/embeddings', 'ask-1-embedding'], ['/v1/chat/completions', 'ask-1']]);
+  });
+
+  it('answers from the model when the embedding call fails', async () => {
+    const { cache, counts } = createCache();
+
+    const response = await cache.create(ask('A prompt without an embedding'));
+    expect(response).toMatchObject({ cacheHit: false, similarity: null });
+    expect(counts).toEqual({ embeddings: 1, chat: 1 });
+  });
+});
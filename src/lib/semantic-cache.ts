@@ -0,0 +1,311 @@
+import type { ChatAPI } from '../api/chat';
+import type { EmbeddingsAPI } from '../api/embeddings';
+import { deriveIdempotencyKey } from '../retry';
+import { contentText } from './content';
+import { digest, stableStringify } from './response-cache';
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  RequestOptions,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SemanticCacheEntry {
+  id: string;
+  /** Embedding of `prompt` */
+  vector: number[];
+  /** Text of the user message the response answered */
+  prompt: string;
+  /** Digest of everything else in the request (model, parameters, system prompt, earlier turns) */
+  contextKey: string;
+  /** Digest of the proxy key the response was created with */
+  proxyKey: string | null;
+  response: ChatCompletionResponse;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+/**
+ * Entries a search or removal applies to; omitted fields match everything
+ */
+export interface SemanticCacheFilter {
+  contextKey?: string;
+  proxyKey?: string | null;
+  prompt?: string;
+}
+
+export interface VectorMatch {
+  entry: SemanticCacheEntry;
+  /** Cosine similarity to the query vector (-1 to 1) */
+  similarity: number;
+}
+
+/**
+ * Vector index behind a `SemanticCache`. Implement it to keep entries in a
+ * vector database instead of process memory.
+ */
+export interface VectorStore {
+  add(entry: SemanticCacheEntry): void | Promise<void>;
+  /** Most similar unexpired entries matching `filter`, best first */
+  search(vector: number[], filter: SemanticCacheFilter, limit: number): VectorMatch[] | Promise<VectorMatch[]>;
+  /** Remove matching entries and return how many were removed */
+  remove(filter: SemanticCacheFilter): number | Promise<number>;
+}
+
+export interface SemanticCacheOptions {
+  /** Model used to embed prompts (default: 'text-embedding-3-small') */
+  embeddingModel?: string;
+  /** Minimum cosine similarity for a stored response to be reused (default: 0.92) */
+  threshold?: number;
+  /** How long responses are reused, in ms (default: 86400000) */
+  ttlMs?: number;
+  /** Where entries are kept (default: in-memory store of 10000 entries) */
+  store?: VectorStore;
+}
+
+export interface SemanticCachedCompletion extends ChatCompletionResponse {
+  cacheHit: boolean;
+  /** Similarity of the closest stored prompt, or null when nothing comparable was stored */
+  similarity: number | null;
+}
+
+/** What identifies a request in the store */
+type EntryKey = Pick<SemanticCacheEntry, 'vector' | 'prompt' | 'contextKey' | 'proxyKey'>;
+
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+const DEFAULT_THRESHOLD = 0.92;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+// ============================================================================
+// Vector store
+// ============================================================================
+
+/**
+ * Brute-force cosine search over entries held in memory; the oldest entries
+ * are dropped once `maxEntries` is reached
+ */
+export class MemoryVectorStore implements VectorStore {
+  private entries: Array<{ entry: SemanticCacheEntry; norm: number }> = [];
+  private readonly maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  add(entry: SemanticCacheEntry): void {
+    this.entries.push({ entry, norm: norm(entry.vector) });
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  search(vector: number[], filter: SemanticCacheFilter, limit: number): VectorMatch[] {
+    const now = Date.now();
+    const queryNorm = norm(vector);
+    this.entries = this.entries.filter(({ entry }) => entry.expiresAt === null || entry.expiresAt > now);
+
+    return this.entries
+      .filter(({ entry }) => matches(entry, filter))
+      .map(({ entry, norm: entryNorm }) => ({
+        entry,
+        similarity: queryNorm && entryNorm ? dot(vector, entry.vector) / (queryNorm * entryNorm) : 0,
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  remove(filter: SemanticCacheFilter): number {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(({ entry }) => !matches(entry, filter));
+    return before - this.entries.length;
+  }
+
+  /** Number of entries held */
+  get size(): number {
+    return this.entries.length;
+  }
+}
+
+// ============================================================================
+// Semantic cache
+// ============================================================================
+
+/**
+ * Reuses chat responses for questions that mean the same thing. The last user
+ * message is embedded and compared with stored prompts; a response is reused
+ * when the similarity reaches the threshold and the rest of the request (model,
+ * parameters, system prompt, earlier turns) and the proxy key are identical.
+ *
+ * Requests whose last message is not a text user message, and responses with
+ * tool calls, are never cached. Each lookup costs one embeddings call, sent
+ * with an explicit `idempotencyKey` suffixed with `-embedding`.
+ *
+ * @example
+ * ```typescript
+ * const cache = mql.semanticCache({ threshold: 0.9 });
+ *
+ * const response = await cache.create({
+ *   messages: [
+ *     { role: 'system', content: supportPrompt },
+ *     { role: 'user', content: 'How can I change my password?' },
+ *   ],
+ * });
+ * console.log(response.cacheHit, response.similarity);
+ *
+ * // After the help article changed
+ * await cache.invalidate({ prompt: 'How do I reset my password?' });
+ * ```
+ */
+export class SemanticCache {
+  private readonly store: VectorStore;
+  private readonly proxyKeyDigest: Promise<string | null>;
+
+  /**
+   * @param proxyKey - Proxy key requests are sent with; entries are only shared under the same key
+   */
+  constructor(
+    private readonly chat: ChatAPI,
+    private readonly embeddings: EmbeddingsAPI,
+    private readonly options: SemanticCacheOptions = {},
+    proxyKey?: string
+  ) {
+    this.store = options.store ?? new MemoryVectorStore();
+    this.proxyKeyDigest = proxyKey ? digest(proxyKey) : Promise.resolve(null);
+  }
+
+  /**
+   * Answer from the cache when a similar prompt was answered before, otherwise
+   * call the model and store the response. The `cache` request option works as
+   * for the response cache: `false` bypasses, `{ refresh: true }` replaces.
+   * Failures of the embeddings call or the store never fail the request.
+   */
+  async create(request: ChatCompletionRequest, options?: RequestOptions): Promise<SemanticCachedCompletion> {
+    const control = options?.cache;
+    const key = control === false ? undefined : await this.keyFor(request, options).catch(() => undefined);
+
+    let similarity: number | null = null;
+    if (key && !(typeof control === 'object' && control.refresh)) {
+      const match = await this.nearest(key).catch(() => undefined);
+      if (match && match.similarity >= (this.options.threshold ?? DEFAULT_THRESHOLD)) {
+        const hit: SemanticCachedCompletion = { ...match.entry.response, cacheHit: true, similarity: match.similarity };
+        // A reused response costs nothing beyond the embedding
+        if (hit.costUsd != null) hit.costUsd = 0;
+        return hit;
+      }
+      similarity = match?.similarity ?? null;
+    }
+
+    const response = await this.chat.create(request, options);
+    if (key && isCacheable(response)) {
+      const ttlMs = (typeof control === 'object' ? control.ttlMs : undefined) ?? this.options.ttlMs ?? DEFAULT_TTL_MS;
+      const { vector, prompt, contextKey, proxyKey } = key;
+      await Promise.resolve()
+        // Replace the answer previously stored for the same prompt
+        .then(() => this.store.remove({ prompt, contextKey, proxyKey }))
+        .then(() => this.store.add({
+          id: response.id || `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+          vector,
+          prompt,
+          contextKey,
+          proxyKey,
+          response: { ...response, cacheHit: undefined },
+          createdAt: Date.now(),
+          expiresAt: ttlMs > 0 ? Date.now() + ttlMs : null,
+        }))
+        .catch(() => undefined);
+    }
+    // An exact-match hit from the client response cache also counts
+    return { ...response, cacheHit: response.cacheHit === true, similarity };
+  }
+
+  /**
+   * Closest stored response for a request, without calling the model
+   */
+  async lookup(request: ChatCompletionRequest, options?: RequestOptions): Promise<VectorMatch | undefined> {
+    const key = await this.keyFor(request, options);
+    return key ? this.nearest(key) : undefined;
+  }
+
+  /**
+   * Remove stored responses. `proxyKey` is the key itself (it is stored as a
+   * digest) and `prompt` the exact text of a cached user message. With no
+   * filter, everything is removed.
+   *
+   * @returns Number of entries removed
+   */
+  async invalidate(filter: { proxyKey?: string; prompt?: string } = {}): Promise<number> {
+    const storeFilter: SemanticCacheFilter = {};
+    if (filter.proxyKey !== undefined) storeFilter.proxyKey = await digest(filter.proxyKey);
+    if (filter.prompt !== undefined) storeFilter.prompt = normalizePrompt(filter.prompt);
+    return this.store.remove(storeFilter);
+  }
+
+  private async nearest(key: EntryKey): Promise<VectorMatch | undefined> {
+    const [match] = await this.store.search(key.vector, { contextKey: key.contextKey, proxyKey: key.proxyKey }, 1);
+    return match;
+  }
+
+  /**
+   * Embedding and partition of a request, or undefined when it cannot be cached
+   */
+  private async keyFor(
+    request: ChatCompletionRequest,
+    options?: RequestOptions
+  ): Promise<EntryKey | undefined> {
+    const last = request.messages[request.messages.length - 1];
+    // Images, audio and files would not be represented by the text embedding
+    if (!last || last.role !== 'user' || (Array.isArray(last.content) && last.content.some(part => part.type !== 'text'))) {
+      return undefined;
+    }
+    const prompt = normalizePrompt(contentText(last.content));
+    if (!prompt) {
+      return undefined;
+    }
+
+    // End-user IDs and streaming do not change the answer
+    const context = { ...request, messages: request.messages.slice(0, -1), stream: undefined, user: undefined };
+    const [embedding, contextKey, proxyKey] = await Promise.all([
+      this.embeddings.create({
+        model: this.options.embeddingModel ?? DEFAULT_EMBEDDING_MODEL,
+        input: prompt,
+        encoding_format: 'float',
+      }, deriveIdempotencyKey(options, 'embedding')),
+      digest(stableStringify(context)),
+      this.proxyKeyDigest,
+    ]);
+
+    return { vector: embedding.data[0].embedding as number[], prompt, contextKey, proxyKey };
+  }
+}
+
+function isCacheable(response: ChatCompletionResponse): boolean {
+  const choice = response.choices[0];
+  return !!choice
+    && choice.finishReason !== 'length'
+    && !choice.message.toolCalls?.length
+    && !choice.message.functionCall;
+}
+
+function matches(entry: SemanticCacheEntry, filter: SemanticCacheFilter): boolean {
+  return (filter.contextKey === undefined || entry.contextKey === filter.contextKey)
+    && (filter.proxyKey === undefined || entry.proxyKey === filter.proxyKey)
+    && (filter.prompt === undefined || entry.prompt === filter.prompt);
+}
+
+function normalizePrompt(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function norm(vector: number[]): number {
+  return Math.sqrt(dot(vector, vector));
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { SSEDecoder, parseSSE, type ServerSentEvent } from './sse';
+
+/**
+ * Feed the chunks to a fresh decoder and collect every event, including
+ * those flushed at the end of the stream
+ */
+function decode(...chunks: string[]): ServerSentEvent[] {
+  const decoder = new SSEDecoder();
+  return [...chunks.flatMap(chunk => decoder.push(chunk)), ...decoder.flush()];
+}
+
+describe('SSEDecoder', () => {
+  it('decodes data events', () => {
+    expect(decode('data: {"a":1}\n\ndata: {"b":2}\n\n')).toEqual([
+      { event: 'message', data: '{"a":1}' },
+      { event: 'message', data: '{"b":2}' },
+    ]);
+  });
+
+  it('accepts LF, CRLF and CR line endings', () => {
+    const expected = [{ event: 'message', data: 'x' }, { event: 'message', data: 'y' }];
+    expect(decode('data: x\n\ndata: y\n\n')).toEqual(expected);
+    expect(decode('data: x\r\n\r\ndata: y\r\n\r\n')).toEqual(expected);
+    expect(decode('data: x\r\rdata: y\r\r')).toEqual(expected);
+  });
+
+  it('handles a CRLF split across chunks', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push('data: x\r')).toEqual([]);
+    expect(decoder.push('\n\r')).toEqual([{ event: 'message', data: 'x' }]);
+    expect(decoder.push('\ndata: y\r\n\r\n')).toEqual([{ event: 'message', data: 'y' }]);
+  });
+
+  it('handles a lone CR at the end of a chunk as a line ending', () => {
+    expect(decode('data: x\r', '\rdata: y\r\r')).toEqual([
+      { event: 'message', data: 'x' },
+      { event: 'message', data: 'y' },
+    ]);
+  });
+
+  it('keeps a pending CR across empty chunks', () => {
+    expect(decode('data: x\r', '', '\n\r', '', '\n')).toEqual([{ event: 'message', data: 'x' }]);
+    expect(decode('data: x\r', '', '\ndata: y\r\n\r\n')).toEqual([
+      { event: 'message', data: 'x\ny' },
+    ]);
+  });
+
+  it('reassembles fields split across chunks', () => {
+    expect(decode('da', 'ta: hel', 'lo\n', '\n')).toEqual([{ event: 'message', data: 'hello' }]);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    expect(decode('data: first\ndata: second\ndata:\ndata: third\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond\n\nthird' },
+    ]);
+  });
+
+  it('ignores comments and unknown fields', () => {
+    expect(decode(': keepalive\n\n:another\nfoo: bar\ndata: x\n\n')).toEqual([
+      { event: 'message', data: 'x' },
+    ]);
+  });
+
+  it('does not dispatch events without data', () => {
+    expect(decode('event: ping\n\n')).toEqual([]);
+  });
+
+  it('reports named events such as error', () => {
+    expect(decode('event: error\ndata: {"error":"boom"}\n\ndata: after\n\n')).toEqual([
+      { event: 'error', data: '{"error":"boom"}' },
+      { event: 'message', data: 'after' },
+    ]);
+  });
+
+  it('keeps the last event id and retry', () => {
+    expect(decode('id: 1\nretry: 3000\ndata: a\n\ndata: b\n\nretry: soon\nid: x\0y\ndata: c\n\n')).toEqual([
+      { event: 'message', data: 'a', id: '1', retry: 3000 },
+      { event: 'message', data: 'b', id: '1', retry: 3000 },
+      { event: 'message', data: 'c', id: '1', retry: 3000 },
+    ]);
+  });
+
+  it('strips only one leading space from values', () => {
+    expect(decode('data:  indented\ndata:tight\n\n')).toEqual([{ event: 'message', data: ' indented\ntight' }]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    expect(decode('\uFEFFdata: x\n\n')).toEqual([{ event: 'message', data: 'x' }]);
+  });
+
+  it('dispatches an unterminated event on flush', () => {
+    expect(decode('data: last')).toEqual([{ event: 'message', data: 'last' }]);
+  });
+});
+
+describe('parseSSE', () => {
+  it('decodes multi-byte characters split across reads', async () => {
+    const bytes = new TextEncoder().encode('data: héllo ✓\n\n');
+    const reads = [bytes.slice(0, 8), bytes.slice(8, 15), bytes.slice(15)];
+    const read = async (): Promise<ReadableStreamReadResult<Uint8Array>> => {
+      const value = reads.shift();
+      return value ? { done: false, value } : { done: true, value: undefined };
+    };
+
+    const events: ServerSentEvent[] = [];
+    for await (const event of parseSSE(read)) {
+      events.push(event);
+    }
+    expect(events).toEqual([{ event: 'message', data: 'héllo ✓' }]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Server-Sent Events parsing per the WHATWG EventSource specification:
+ * multi-line `data:`, `event:` names, `id:` / `retry:` fields, `:` comments
+ * and LF, CRLF or CR line endings (also when split across network chunks).
+ */
+
+export interface ServerSentEvent {
+  /** Event type (default: 'message') */
+  event: string;
+  /** Data lines joined with `\n` */
+  data: string;
+  /** Last event ID seen on the stream */
+  id?: string;
+  /** Reconnection time requested by the server, in ms */
+  retry?: number;
+}
+
+/**
+ * Incremental decoder: feed it text as it arrives and collect complete events
+ *
+ * @example
+ * ```typescript
+ * const decoder = new SSEDecoder();
+ * for (const event of decoder.push('event: ping\ndata: {"a":1}\n\n')) {
+ *   console.log(event.event, JSON.parse(event.data));
+ * }
+ * ```
+ */
+export class SSEDecoder {
+  private buffer = '';
+  private started = false;
+  private pendingCR = false;
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId?: string;
+  private retry?: number;
+
+  /**
+   * Decode a chunk of text, returning the events it completes
+   */
+  push(text: string): ServerSentEvent[] {
+    // An empty chunk must not resolve a pending CR
+    if (text.length === 0) return [];
+
+    if (!this.started) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    // A CR ending the previous chunk may be the first half of a CRLF
+    if (this.pendingCR && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.pendingCR = false;
+
+    this.buffer += text;
+    const events: ServerSentEvent[] = [];
+    const lineEnding = /\r\n|\r|\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = lineEnding.exec(this.buffer)) !== null) {
+      // A trailing CR cannot be classified until the next chunk arrives
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) {
+        this.pendingCR = true;
+      }
+      const event = this.processLine(this.buffer.slice(start, match.index));
+      if (event) events.push(event);
+      start = lineEnding.lastIndex;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  /**
+   * End of stream: dispatch an event left unterminated by the server
+   */
+  flush(): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      if (event) events.push(event);
+      this.buffer = '';
+    }
+    const event = this.dispatch();
+    if (event) events.push(event);
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | undefined {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      return undefined;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+    return undefined;
+  }
+
+  private dispatch(): ServerSentEvent | undefined {
+    const event = this.eventType || 'message';
+    const data = this.dataLines;
+    this.eventType = '';
+    this.dataLines = [];
+
+    if (data.length === 0) {
+      return undefined;
+    }
+
+    const result: ServerSentEvent = { event, data: data.join('\n') };
+    if (this.lastEventId !== undefined) result.id = this.lastEventId;
+    if (this.retry !== undefined) result.retry = this.retry;
+    return result;
+  }
+}
+
+/**
+ * Parse a byte stream into events
+ *
+ * @param read - Reads the next chunk, e.g. `() => reader.read()`
+ */
+export async function* parseSSE(
+  read: () => Promise<ReadableStreamReadResult<Uint8Array>>
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  const decoder = new TextDecoder();
+  const sse = new SSEDecoder();
+
+  while (true) {
+    const { done, value } = await read();
+    if (done) {
+      yield* sse.push(decoder.decode());
+      yield* sse.flush();
+      return;
+    }
+    yield* sse.push(decoder.decode(value, { stream: true }));
+  }
+}
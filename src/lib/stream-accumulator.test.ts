@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ChatCompletionAccumulator } from './stream-accumulator';
+import type { ChatCompletionChunk, ChatCompletionChunkChoice } from '../types';
+
+function chunk(choices: ChatCompletionChunkChoice[], extra?: Partial<ChatCompletionChunk>): ChatCompletionChunk {
+  return { id: 'chatcmpl-1', object: 'chat.completion.chunk', created: 1, model: 'gpt-4o', choices, ...extra };
+}
+
+describe('ChatCompletionAccumulator', () => {
+  it('concatenates content and keeps the role and finish reason', () => {
+    const response = new ChatCompletionAccumulator()
+      .add(chunk([{ index: 0, delta: { role: 'assistant', content: 'Hel' }, finishReason: null }]))
+      .add(chunk([{ index: 0, delta: { content: 'lo' }, finishReason: null }]))
+      .add(chunk([{ index: 0, delta: {}, finishReason: 'stop' }]))
+      .toResponse();
+
+    expect(response).toEqual({
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1,
+      model: 'gpt-4o',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finishReason: 'stop' }],
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    });
+  });
+
+  it('merges tool call fragments by index', () => {
+    const response = new ChatCompletionAccumulator()
+      .add(chunk([{ index: 0, delta: { toolCalls: [
+        { index: 0, id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '{"ci' } },
+      ] }, finishReason: null }]))
+      .add(chunk([{ index: 0, delta: { toolCalls: [
+        { index: 1, id: 'call_b', type: 'function', function: { name: 'get_time', arguments: '{}' } },
+        { index: 0, function: { arguments: 'ty":"Paris"}' } },
+      ] }, finishReason: null }]))
+      .add(chunk([{ index: 0, delta: {}, finishReason: 'tool_calls' }]))
+      .toResponse();
+
+    const [choice] = response.choices;
+    expect(choice.finishReason).toBe('tool_calls');
+    expect(choice.message.content).toBeNull();
+    expect(choice.message.toolCalls).toEqual([
+      { id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+      { id: 'call_b', type: 'function', function: { name: 'get_time', arguments: '{}' } },
+    ]);
+  });
+
+  it('merges legacy function call fragments', () => {
+    const response = new ChatCompletionAccumulator()
+      .add(chunk([{ index: 0, delta: { functionCall: { name: 'lookup', arguments: '{"q":' } }, finishReason: null }]))
+      .add(chunk([{ index: 0, delta: { functionCall: { arguments: '"mql"}' } }, finishReason: 'function_call' }]))
+      .toResponse();
+
+    expect(response.choices[0].message.functionCall).toEqual({ name: 'lookup', arguments: '{"q":"mql"}' });
+  });
+
+  it('keeps choices apart and in index order when n > 1', () => {
+    const response = new ChatCompletionAccumulator()
+      .add(chunk([
+        { index: 1, delta: { content: 'B' }, finishReason: null },
+        { index: 0, delta: { content: 'A' }, finishReason: null },
+      ]))
+      .add(chunk([{ index: 1, delta: { content: '2' }, finishReason: 'length' }]))
+      .add(chunk([{ index: 0, delta: { content: '1' }, finishReason: 'stop' }]))
+      .toResponse();
+
+    expect(response.choices.map(c => [c.index, c.message.content, c.finishReason])).toEqual([
+      [0, 'A1', 'stop'],
+      [1, 'B2', 'length'],
+    ]);
+  });
+
+  it('takes usage and routing metadata from the chunks that carry them', () => {
+    const mql = {
+      provider: 'openai', providerId: null, model: 'gpt-4o', isFallback: false,
+      requestId: 'req_1', latencyMs: 120, costUsd: null,
+    };
+    const response = new ChatCompletionAccumulator()
+      .add(chunk([{ index: 0, delta: { content: 'Hi' }, finishReason: 'stop' }], { mql }))
+      .add(chunk([], { usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 }, mql }))
+      .toResponse();
+
+    expect(response.usage).toEqual({ promptTokens: 3, completionTokens: 1, totalTokens: 4 });
+    expect(response.mql).toEqual(mql);
+    expect(response.choices).toHaveLength(1);
+  });
+
+  it('returns snapshots that later chunks do not mutate', () => {
+    const accumulator = new ChatCompletionAccumulator().add(chunk([{ index: 0, delta: { toolCalls: [
+      { index: 0, id: 'call_a', type: 'function', function: { name: 'f', arguments: '{' } },
+    ] }, finishReason: null }]));
+    const snapshot = accumulator.toResponse();
+
+    accumulator.add(chunk([{ index: 0, delta: { toolCalls: [{ index: 0, function: { arguments: '}' } }] }, finishReason: null }]));
+    expect(snapshot.choices[0].message.toolCalls?.[0].function.arguments).toBe('{');
+    expect(accumulator.toResponse().choices[0].message.toolCalls?.[0].function.arguments).toBe('{}');
+  });
+});
@@ -0,0 +1,120 @@
+import type {
+  ChatCompletionChoice,
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  ChatMessage,
+  MQLResponseMetadata,
+  ToolCall,
+  UsageInfo,
+} from '../types';
+
+/**
+ * Per-choice state while chunks are being merged
+ */
+interface ChoiceState {
+  role: ChatMessage['role'];
+  content: string | null;
+  functionCall?: { name: string; arguments: string };
+  toolCalls: Map<number, ToolCall>;
+  finishReason: ChatCompletionChoice['finishReason'];
+}
+
+/**
+ * Rebuilds a complete `ChatCompletionResponse` from streamed chunks: content,
+ * tool calls (merged by index, JSON arguments concatenated), legacy function
+ * calls, finish reasons and usage, for every choice when `n > 1`.
+ *
+ * @example
+ * ```typescript
+ * const accumulator = new ChatCompletionAccumulator();
+ * for await (const chunk of mql.chat.stream({ messages, tools })) {
+ *   accumulator.add(chunk);
+ * }
+ * const response = accumulator.toResponse();
+ * console.log(response.choices[0].message.toolCalls);
+ * ```
+ */
+export class ChatCompletionAccumulator {
+  private id = '';
+  private model = '';
+  private created = 0;
+  private usage?: UsageInfo;
+  private mql?: MQLResponseMetadata;
+  private readonly choices = new Map<number, ChoiceState>();
+
+  /**
+   * Merge one chunk into the accumulated response
+   */
+  add(chunk: ChatCompletionChunk): this {
+    this.id ||= chunk.id;
+    this.model ||= chunk.model;
+    this.created ||= chunk.created;
+    if (chunk.usage) this.usage = chunk.usage;
+    if (chunk.mql) this.mql = chunk.mql;
+
+    for (const { index, delta, finishReason } of chunk.choices ?? []) {
+      let choice = this.choices.get(index);
+      if (!choice) {
+        choice = { role: 'assistant', content: null, toolCalls: new Map(), finishReason: null };
+        this.choices.set(index, choice);
+      }
+
+      if (delta.role) choice.role = delta.role;
+      if (delta.content) choice.content = (choice.content ?? '') + delta.content;
+      if (finishReason) choice.finishReason = finishReason;
+
+      if (delta.functionCall) {
+        choice.functionCall ??= { name: '', arguments: '' };
+        if (delta.functionCall.name) choice.functionCall.name = delta.functionCall.name;
+        choice.functionCall.arguments += delta.functionCall.arguments ?? '';
+      }
+
+      for (const fragment of delta.toolCalls ?? []) {
+        let toolCall = choice.toolCalls.get(fragment.index);
+        if (!toolCall) {
+          toolCall = { id: '', type: 'function', function: { name: '', arguments: '' } };
+          choice.toolCalls.set(fragment.index, toolCall);
+        }
+        if (fragment.id) toolCall.id = fragment.id;
+        if (fragment.type) toolCall.type = fragment.type;
+        if (fragment.function?.name) toolCall.function.name = fragment.function.name;
+        toolCall.function.arguments += fragment.function?.arguments ?? '';
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * The response accumulated so far
+   */
+  toResponse(): ChatCompletionResponse {
+    const choices = [...this.choices.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, choice]): ChatCompletionChoice => {
+        const message: ChatMessage = { role: choice.role, content: choice.content };
+        if (choice.functionCall) {
+          message.functionCall = { ...choice.functionCall };
+        }
+        if (choice.toolCalls.size > 0) {
+          message.toolCalls = [...choice.toolCalls.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, toolCall]) => ({ ...toolCall, function: { ...toolCall.function } }));
+        }
+        return { index, message, finishReason: choice.finishReason };
+      });
+
+    const response: ChatCompletionResponse = {
+      id: this.id,
+      object: 'chat.completion',
+      created: this.created,
+      model: this.model,
+      choices,
+      usage: this.usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    };
+    if (this.mql) {
+      response.mql = this.mql;
+    }
+    return response;
+  }
+}
@@ -0,0 +1,133 @@
+import { MQLStructuredOutputError } from '../errors';
+import { deriveIdempotencyKey } from '../retry';
+import { contentText } from './content';
+import { validateJsonSchema } from './json-schema';
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  RequestOptions,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Checks a parsed reply and returns it typed; throws to reject it.
+ * A Zod schema's `parse` method fits directly.
+ */
+export type OutputValidator<T> = (value: unknown) => T;
+
+export interface ParseParams<T> extends Omit<ChatCompletionRequest, 'responseFormat' | 'stream'> {
+  /** JSON schema the reply must match, sent as the `json_schema` response format */
+  schema: Record<string, unknown>;
+  /** Schema name shown to the model (default: 'response') */
+  name?: string;
+  /** What the output represents, shown to the model */
+  description?: string;
+  /** Ask the provider to enforce the schema exactly (requires a strict-mode compatible schema) */
+  strict?: boolean;
+  /** Custom validator, e.g. `MySchema.parse` from Zod (default: bundled JSON Schema checker) */
+  validate?: OutputValidator<T>;
+  /** Times to re-ask the model with the validation error when a reply is rejected (default: 0) */
+  maxValidationRetries?: number;
+}
+
+export interface ParsedChatCompletion<T> extends ChatCompletionResponse {
+  /** The validated reply */
+  parsed: T;
+  /** Number of model calls made, including validation retries */
+  attempts: number;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Request a JSON-schema constrained completion, parse and validate the reply,
+ * feeding validation errors back to the model while retries remain. An
+ * explicit `idempotencyKey` is suffixed with the attempt number.
+ *
+ * @param create - Function performing one chat completion (`ChatAPI.create`)
+ */
+export async function parseCompletion<T>(
+  create: (request: ChatCompletionRequest, options?: RequestOptions) => Promise<ChatCompletionResponse>,
+  params: ParseParams<T>,
+  options?: RequestOptions
+): Promise<ParsedChatCompletion<T>> {
+  const {
+    schema,
+    name = 'response',
+    description,
+    strict,
+    validate = jsonSchemaValidator<T>(schema),
+    maxValidationRetries = 0,
+    ...request
+  } = params;
+  const messages = [...request.messages];
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await create({
+      ...request,
+      messages,
+      responseFormat: { type: 'json_schema', jsonSchema: { name, description, schema, strict } },
+    }, deriveIdempotencyKey(options, attempt));
+
+    const message = response.choices[0]?.message;
+    if (!message) {
+      throw new Error('Chat completion returned no choices');
+    }
+
+    const content = message.content === null ? null : contentText(message.content);
+    let reason: string;
+    let cause: unknown;
+    try {
+      return { ...response, parsed: validate(parseJson(content)), attempts: attempt };
+    } catch (err) {
+      cause = err;
+      reason = err instanceof Error ? err.message : String(err);
+    }
+
+    if (attempt > maxValidationRetries) {
+      throw new MQLStructuredOutputError(
+        `Model output did not match the schema: ${reason}`,
+        content,
+        response,
+        { cause }
+      );
+    }
+
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your previous reply was rejected: ${reason}\nReply again with only JSON that matches the schema.`,
+      }
+    );
+  }
+}
+
+function parseJson(content: string | null): unknown {
+  if (!content) {
+    throw new Error('reply was empty');
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error('reply is not valid JSON');
+  }
+}
+
+/**
+ * Validator backed by the bundled JSON Schema checker
+ */
+function jsonSchemaValidator<T>(schema: Record<string, unknown>): OutputValidator<T> {
+  return (value) => {
+    const errors = validateJsonSchema(schema, value);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    return value as T;
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { TokenCounter, estimateCost } from './tokenizer';
+
+/** Texts with their real cl100k token counts */
+const samples: Array<[string, number]> = [
+  ['hello world', 2],
+  ['Hello, world!', 4],
+  ["I don't know", 4],
+  ['The quick brown fox jumps over the lazy dog.', 10],
+  ['1234567890', 4],
+];
+
+describe('TokenCounter', () => {
+  it('estimates at least the real count without a tokenizer', () => {
+    const counter = new TokenCounter();
+    for (const [text, tokens] of samples) {
+      expect(counter.countText(text, 'gpt-4o'), text).toBeGreaterThanOrEqual(tokens);
+    }
+  });
+
+  it('counts a token per line break and per dense script character', () => {
+    const counter = new TokenCounter();
+    expect(counter.countText('a\n\n    b')).toBe(5);
+    expect(counter.countText('你好')).toBe(4);
+  });
+
+  it('scales estimates up for other vendors', () => {
+    const counter = new TokenCounter();
+    const text = 'The quick brown fox jumps over the lazy dog.';
+    expect(counter.countText(text, 'claude-3-5-sonnet')).toBeGreaterThan(counter.countText(text, 'gpt-4o'));
+  });
+
+  it('uses the tokenizer resolved for the model', () => {
+    const counter = new TokenCounter({
+      tokenizer: model => (model === 'gpt-4o' ? { encode: text => text.split(' ').map(() => 0) } : undefined),
+    });
+    expect(counter.countText('one two three', 'gpt-4o')).toBe(3);
+    expect(counter.countText('one two three', 'claude-3-5-sonnet')).toBeGreaterThan(3);
+  });
+});
+
+describe('estimateCost', () => {
+  const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+  it('bounds the completion by maxTokens or the remaining context', () => {
+    const counter = new TokenCounter({ tokenizer: { encode: () => [0] } });
+    const pricing = { model: 'gpt-4o', inputPricePer1M: 1, outputPricePer1M: 2, contextLength: 100 };
+
+    expect(estimateCost({ messages, maxTokens: 10 }, pricing, counter)).toMatchObject({ maxCompletionTokens: 10 });
+    const estimate = estimateCost({ messages }, pricing, counter);
+    expect(estimate.maxCompletionTokens).toBe(100 - estimate.promptTokens);
+  });
+
+  it('throws when the completion has no upper bound', () => {
+    expect(() => estimateCost({ messages }, { model: 'gpt-4o', outputPricePer1M: 2 })).toThrow('set maxTokens');
+  });
+});
@@ -0,0 +1,270 @@
+import { normalizePricing } from './cost-calculator';
+import type { EmbeddingRequest } from '../api/embeddings';
+import type {
+  ChatCompletionRequest,
+  ChatMessage,
+  FunctionDefinition,
+  ModelPricing,
+  ToolDefinition,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * BPE encoder. Encodings from `tiktoken`, `js-tiktoken` and `gpt-tokenizer` all fit.
+ * The SDK bundles none, so counts are approximate until one is supplied.
+ *
+ * @example
+ * ```typescript
+ * import { encoding_for_model } from 'tiktoken';
+ * const counter = new TokenCounter({ tokenizer: encoding_for_model('gpt-4o') });
+ * ```
+ */
+export interface Tokenizer {
+  encode(text: string): ArrayLike<number>;
+}
+
+/**
+ * Picks the tokenizer for a model; returning `undefined` falls back to the approximation
+ */
+export type TokenizerResolver = (model: string) => Tokenizer | undefined;
+
+export interface TokenCounterOptions {
+  /** Exact tokenizer, or a resolver choosing one per model (default: approximation) */
+  tokenizer?: Tokenizer | TokenizerResolver;
+}
+
+export interface CostEstimate {
+  model: string;
+  /** Tokens in the request input */
+  promptTokens: number;
+  /** Upper bound on completion tokens: `maxTokens`, or what is left of the context window */
+  maxCompletionTokens: number;
+  promptCostUsd: number;
+  maxCompletionCostUsd: number;
+  /** Worst-case cost of the request */
+  maxTotalCostUsd: number;
+}
+
+// OpenAI chat format overheads (tokens)
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_NAME = 1;
+const REPLY_PRIMING_TOKENS = 3;
+const TOKENS_PER_TOOL = 8;
+const LOW_DETAIL_IMAGE_TOKENS = 85;
+const HIGH_DETAIL_IMAGE_TOKENS = 765;
+
+/**
+ * Other vendors' tokenizers produce more tokens than OpenAI's for the same
+ * text; approximations for their models are scaled up to stay on the high side
+ */
+const APPROXIMATION_FACTORS: Array<[RegExp, number]> = [
+  [/^(gpt-|o\d|chatgpt-|text-embedding-|davinci|babbage)/i, 1],
+  [/claude/i, 1.15],
+];
+const DEFAULT_APPROXIMATION_FACTOR = 1.1;
+
+// Pre-tokenisation close to cl100k: contractions, words, 1-3 digit groups, punctuation runs, whitespace
+const PIECE_PATTERN = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/giu;
+// Scripts without spaces between words (CJK, kana, hangul) take one or two tokens per character
+const DENSE_SCRIPT_PATTERN = /[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/gu;
+const TOKENS_PER_DENSE_CHARACTER = 2;
+// cl100k words rarely split into pieces shorter than three letters
+const LETTERS_PER_TOKEN = 3;
+
+// ============================================================================
+// Token counter
+// ============================================================================
+
+/**
+ * Counts tokens for chat messages, tools and embedding input. Exact when a
+ * tokenizer is supplied for the model. Otherwise the count is an approximation
+ * from a cl100k-like word split, not real BPE: every three letters, every
+ * punctuation character and every line break count as a token, so it runs
+ * well above the real count for prose and code. It is not a strict bound
+ * (emoji, rare symbols and random identifiers can take more tokens than
+ * estimated), so supply a tokenizer wherever limits must be exact.
+ *
+ * @example
+ * ```typescript
+ * const counter = new TokenCounter();
+ * const tokens = counter.countRequest({ model: 'gpt-4o', messages, tools });
+ * if (tokens > 8000) messages = messages.slice(-10);
+ * ```
+ */
+export class TokenCounter {
+  constructor(private readonly options: TokenCounterOptions = {}) {}
+
+  /**
+   * Tokens in a piece of text
+   */
+  countText(text: string, model?: string): number {
+    if (!text) return 0;
+    const tokenizer = this.tokenizerFor(model);
+    if (tokenizer) {
+      return tokenizer.encode(text).length;
+    }
+    return Math.ceil(approximateTokens(text) * approximationFactor(model));
+  }
+
+  /**
+   * Tokens of one message, including the chat format overhead
+   */
+  countMessage(message: ChatMessage, model?: string): number {
+    let tokens = TOKENS_PER_MESSAGE + this.countText(message.role, model);
+
+    if (typeof message.content === 'string') {
+      tokens += this.countText(message.content, model);
+    } else {
+      for (const part of message.content ?? []) {
+        if (part.type === 'text') {
+          tokens += this.countText(part.text, model);
+        } else if (part.type === 'image_url') {
+          tokens += part.imageUrl.detail === 'low' ? LOW_DETAIL_IMAGE_TOKENS : HIGH_DETAIL_IMAGE_TOKENS;
+        }
+        // Audio and file parts are billed by duration / pages and are not estimated
+      }
+    }
+
+    if (message.name) {
+      tokens += TOKENS_PER_NAME + this.countText(message.name, model);
+    }
+    if (message.functionCall) {
+      tokens += this.countText(message.functionCall.name + message.functionCall.arguments, model);
+    }
+    for (const call of message.toolCalls ?? []) {
+      tokens += this.countText(call.function.name + call.function.arguments, model);
+    }
+    return tokens;
+  }
+
+  /**
+   * Tokens of a message list as sent to the model, including reply priming
+   */
+  countMessages(messages: ChatMessage[], model?: string): number {
+    return messages.reduce((total, message) => total + this.countMessage(message, model), REPLY_PRIMING_TOKENS);
+  }
+
+  /**
+   * Tokens taken by tool or function definitions
+   */
+  countTools(tools: Array<ToolDefinition | FunctionDefinition>, model?: string): number {
+    return tools.reduce((total, tool) => {
+      const definition = 'function' in tool ? tool.function : tool;
+      return total + TOKENS_PER_TOOL + this.countText(JSON.stringify(definition), model);
+    }, 0);
+  }
+
+  /**
+   * Prompt tokens of a whole chat request: messages plus tools and functions
+   */
+  countRequest(request: ChatCompletionRequest): number {
+    return this.countMessages(request.messages, request.model)
+      + this.countTools([...(request.tools ?? []), ...(request.functions ?? [])], request.model);
+  }
+
+  /**
+   * Tokens of embeddings input (pre-tokenised input is counted as given)
+   */
+  countEmbeddingInput(input: EmbeddingRequest['input'], model?: string): number {
+    if (typeof input === 'string') return this.countText(input, model);
+    return (input as Array<string | number | number[]>).reduce<number>((total, item) => {
+      if (typeof item === 'string') return total + this.countText(item, model);
+      if (Array.isArray(item)) return total + item.length;
+      return total + 1;
+    }, 0);
+  }
+
+  private tokenizerFor(model?: string): Tokenizer | undefined {
+    const { tokenizer } = this.options;
+    if (typeof tokenizer === 'function') {
+      return model ? tokenizer(model) : undefined;
+    }
+    return tokenizer;
+  }
+}
+
+// ============================================================================
+// Cost estimation
+// ============================================================================
+
+/**
+ * Estimate the cost of a chat or embeddings request from the model's pricing.
+ * Throws for a chat request without `maxTokens` when the pricing has no
+ * `contextLength`, since its completion cost would have no upper bound.
+ *
+ * @example
+ * ```typescript
+ * const pricing = await mql.pricing.getModel('openai', 'gpt-4o');
+ * const estimate = estimateCost({ model: 'gpt-4o', messages, maxTokens: 500 }, pricing!);
+ * if (estimate.maxTotalCostUsd > 0.05) throw new Error('Request too expensive');
+ * ```
+ */
+export function estimateCost(
+  request: ChatCompletionRequest | EmbeddingRequest,
+  pricing: ModelPricing,
+  counter: TokenCounter = new TokenCounter()
+): CostEstimate {
+  const model = request.model ?? pricing.model;
+  let promptTokens: number;
+  let maxCompletionTokens: number;
+
+  if ('input' in request) {
+    promptTokens = counter.countEmbeddingInput(request.input, model);
+    maxCompletionTokens = 0;
+  } else {
+    promptTokens = counter.countRequest({ ...request, model });
+    // Without either bound the worst case would silently read as zero
+    if (request.maxTokens === undefined && pricing.contextLength === undefined) {
+      throw new Error(`Cannot bound the completion of "${model}": set maxTokens, the model's context length is unknown`);
+    }
+    const remaining = pricing.contextLength !== undefined ? Math.max(pricing.contextLength - promptTokens, 0) : 0;
+    maxCompletionTokens = (request.maxTokens ?? remaining) * (request.n ?? 1);
+  }
+
+  const prices = normalizePricing(pricing);
+  const promptCostUsd = promptTokens * (prices.input ?? 0);
+  const maxCompletionCostUsd = maxCompletionTokens * (prices.output ?? 0);
+
+  return {
+    model,
+    promptTokens,
+    maxCompletionTokens,
+    promptCostUsd,
+    maxCompletionCostUsd,
+    maxTotalCostUsd: promptCostUsd + maxCompletionCostUsd,
+  };
+}
+
+// ============================================================================
+// Approximation
+// ============================================================================
+
+function approximateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    const word = piece.trimStart();
+    if (!word) {
+      // Spaces merge into one token; line breaks take one each, plus one for the indentation after them
+      const breaks = piece.match(/\r?\n|\r/g)?.length ?? 0;
+      tokens += breaks === 0 ? 1 : breaks + (/[^\r\n]$/.test(piece) ? 1 : 0);
+    } else if (/^\p{N}+$/u.test(word) || /^'\p{L}+$/u.test(word)) {
+      // Digit groups of up to three and contractions are single cl100k tokens
+      tokens += 1;
+    } else if (/^\p{L}+$/u.test(word)) {
+      const dense = word.match(DENSE_SCRIPT_PATTERN)?.length ?? 0;
+      tokens += dense * TOKENS_PER_DENSE_CHARACTER + Math.ceil((word.length - dense) / LETTERS_PER_TOKEN);
+    } else {
+      tokens += word.length;
+    }
+  }
+  return tokens;
+}
+
+function approximationFactor(model?: string): number {
+  if (!model) return 1;
+  const match = APPROXIMATION_FACTORS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_APPROXIMATION_FACTOR;
+}
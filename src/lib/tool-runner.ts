@@ -0,0 +1,177 @@
+import { deriveIdempotencyKey } from '../retry';
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  RequestOptions,
+  ToolCall,
+  ToolDefinition,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Context passed to a tool handler
+ */
+export interface ToolHandlerContext {
+  /** The tool call being executed */
+  toolCall: ToolCall;
+  /** Loop iteration (1-based) that requested the call */
+  iteration: number;
+  /** Aborts when the run is cancelled via `RequestOptions.signal` */
+  signal?: AbortSignal;
+}
+
+/**
+ * A tool the model may call: JSON schema for its arguments plus the function that runs it
+ */
+export interface RunnableTool<TArgs = Record<string, unknown>> {
+  /** What the tool does, shown to the model */
+  description?: string;
+  /** JSON schema for the tool arguments */
+  schema?: Record<string, unknown>;
+  /** Executes the call. Non-string results are JSON-encoded; thrown errors are reported to the model. */
+  handler(args: TArgs, context: ToolHandlerContext): unknown | Promise<unknown>;
+}
+
+/**
+ * Event emitted for each step of a tool run
+ */
+export type ToolRunnerEvent =
+  | { type: 'response'; iteration: number; response: ChatCompletionResponse }
+  | { type: 'tool_call'; iteration: number; toolCall: ToolCall }
+  | { type: 'tool_result'; iteration: number; toolCall: ToolCall; content: string; error?: Error }
+  | { type: 'message'; iteration: number; message: ChatMessage };
+
+export interface RunToolsParams extends Omit<ChatCompletionRequest, 'tools' | 'stream' | 'functions' | 'functionCall'> {
+  /** Tools keyed by function name */
+  tools: Record<string, RunnableTool>;
+  /** Maximum number of model calls before giving up (default: 10) */
+  maxIterations?: number;
+  /** Run the tool calls of one response concurrently (default: true); when set, also sent to the model */
+  parallelToolCalls?: boolean;
+  /** Called for every response, tool call, tool result and appended message */
+  onEvent?: (event: ToolRunnerEvent) => void;
+}
+
+export interface RunToolsResult {
+  /** Final assistant message (the first one without tool calls) */
+  message: ChatMessage;
+  /** Full transcript: the input messages plus every assistant and tool message */
+  messages: ChatMessage[];
+  /** Every completion response, in order */
+  responses: ChatCompletionResponse[];
+  /** Number of model calls made */
+  iterations: number;
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Drive the tool-calling loop: call the model, execute requested tools, append
+ * their results and call again until the model answers without tool calls.
+ * An explicit `idempotencyKey` is suffixed with the iteration number.
+ *
+ * @param create - Function performing one chat completion (`ChatAPI.create`)
+ */
+export async function runTools(
+  create: (request: ChatCompletionRequest, options?: RequestOptions) => Promise<ChatCompletionResponse>,
+  params: RunToolsParams,
+  options?: RequestOptions
+): Promise<RunToolsResult> {
+  const { tools, maxIterations = 10, parallelToolCalls = true, onEvent, ...request } = params;
+  const messages = [...request.messages];
+  const responses: ChatCompletionResponse[] = [];
+  const definitions: ToolDefinition[] = Object.entries(tools).map(([name, tool]) => ({
+    type: 'function',
+    function: { name, description: tool.description, parameters: tool.schema },
+  }));
+
+  const append = (message: ChatMessage, iteration: number) => {
+    messages.push(message);
+    onEvent?.({ type: 'message', iteration, message });
+  };
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const response = await create({
+      ...request,
+      messages,
+      tools: definitions,
+      parallelToolCalls: params.parallelToolCalls,
+    }, deriveIdempotencyKey(options, iteration));
+    responses.push(response);
+    onEvent?.({ type: 'response', iteration, response });
+
+    const message = response.choices[0]?.message;
+    if (!message) {
+      throw new Error('Chat completion returned no choices');
+    }
+    append(message, iteration);
+
+    const toolCalls = message.toolCalls ?? [];
+    if (toolCalls.length === 0) {
+      return { message, messages, responses, iterations: iteration };
+    }
+
+    const execute = async (toolCall: ToolCall): Promise<ChatMessage> => {
+      onEvent?.({ type: 'tool_call', iteration, toolCall });
+      const { content, error } = await callTool(tools, toolCall, { toolCall, iteration, signal: options?.signal });
+      onEvent?.({ type: 'tool_result', iteration, toolCall, content, error });
+      return { role: 'tool', toolCallId: toolCall.id, content };
+    };
+
+    let results: ChatMessage[];
+    if (parallelToolCalls) {
+      results = await Promise.all(toolCalls.map(execute));
+    } else {
+      results = [];
+      for (const toolCall of toolCalls) {
+        results.push(await execute(toolCall));
+      }
+    }
+
+    // Tool messages must follow the assistant message in tool-call order
+    results.forEach(result => append(result, iteration));
+  }
+
+  throw new Error(`Tool run did not finish within ${maxIterations} iterations`);
+}
+
+/**
+ * Execute one tool call, converting failures into a message the model can read
+ */
+async function callTool(
+  tools: Record<string, RunnableTool>,
+  toolCall: ToolCall,
+  context: ToolHandlerContext
+): Promise<{ content: string; error?: Error }> {
+  const tool = tools[toolCall.function.name];
+
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool "${toolCall.function.name}"`);
+    }
+
+    let args: unknown;
+    try {
+      args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+    } catch {
+      throw new Error(`Invalid JSON arguments for tool "${toolCall.function.name}"`);
+    }
+
+    const result = await tool.handler(args as Record<string, unknown>, context);
+    return { content: typeof result === 'string' ? result : JSON.stringify(result ?? null) };
+  } catch (err) {
+    // Abort the whole run rather than reporting cancellation to the model
+    if (context.signal?.aborted) {
+      throw err;
+    }
+
+    const error = err instanceof Error ? err : new Error(String(err));
+    return { content: JSON.stringify({ error: error.message }), error };
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { deriveIdempotencyKey, isRetryable, parseRetryAfter, resolveRetryPolicy } from './retry';
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+  const parse = (headers: Record<string, string>) => parseRetryAfter(new Headers(headers), now);
+
+  it('returns null without usable headers', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parse({})).toBeNull();
+    expect(parse({ 'retry-after': 'soon' })).toBeNull();
+    expect(parse({ 'x-ratelimit-reset': '1 minute' })).toBeNull();
+  });
+
+  it('prefers retry-after-ms', () => {
+    expect(parse({ 'retry-after-ms': '250', 'retry-after': '10' })).toBe(250);
+  });
+
+  it('reads Retry-After as seconds', () => {
+    expect(parse({ 'retry-after': '2' })).toBe(2000);
+    expect(parse({ 'retry-after': '1.5' })).toBe(1500);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    expect(parse({ 'retry-after': 'Thu, 01 Jan 2026 00:00:30 GMT' })).toBe(30_000);
+    // A date in the past means retry immediately
+    expect(parse({ 'retry-after': 'Wed, 31 Dec 2025 23:59:00 GMT' })).toBe(0);
+  });
+
+  it('reads x-ratelimit-reset as seconds, epoch seconds or a duration', () => {
+    expect(parse({ 'x-ratelimit-reset': '3' })).toBe(3000);
+    expect(parse({ 'x-ratelimit-reset': String(now / 1000 + 20) })).toBe(20_000);
+    expect(parse({ 'x-ratelimit-reset': '1m30s' })).toBe(90_000);
+    expect(parse({ 'x-ratelimit-reset': '2.5s' })).toBe(2500);
+    expect(parse({ 'x-ratelimit-reset': '250ms' })).toBe(250);
+  });
+});
+
+describe('isRetryable', () => {
+  const policy = resolveRetryPolicy();
+
+  it('retries idempotent methods on retryable statuses and network errors', () => {
+    expect(isRetryable(policy, 'GET', 503)).toBe(true);
+    expect(isRetryable(policy, 'delete', 500)).toBe(true);
+    expect(isRetryable(policy, 'GET', 0)).toBe(true);
+  });
+
+  it('never retries statuses outside the policy', () => {
+    expect(isRetryable(policy, 'GET', 400)).toBe(false);
+    expect(isRetryable(policy, 'GET', 404)).toBe(false);
+    expect(isRetryable(policy, 'POST', 401, true)).toBe(false);
+  });
+
+  it('retries non-idempotent methods only on 429 unless they carry an idempotency key', () => {
+    expect(isRetryable(policy, 'POST', 429)).toBe(true);
+    expect(isRetryable(policy, 'POST', 503)).toBe(false);
+    expect(isRetryable(policy, 'POST', 0)).toBe(false);
+    expect(isRetryable(policy, 'POST', 503, true)).toBe(true);
+    expect(isRetryable(policy, 'POST', 0, true)).toBe(true);
+  });
+
+  it('follows a custom policy', () => {
+    const custom = resolveRetryPolicy({ retryableStatuses: [409], idempotentMethods: ['post'], nonIdempotentRetryStatuses: [] });
+    expect(isRetryable(custom, 'POST', 409)).toBe(true);
+    expect(isRetryable(custom, 'POST', 503)).toBe(false);
+    expect(isRetryable(custom, 'PATCH', 409)).toBe(false);
+  });
+});
+
+describe('deriveIdempotencyKey', () => {
+  it('suffixes an explicit key and leaves other options alone', () => {
+    const options = { idempotencyKey: 'order-1', timeout: 5000 };
+    expect(deriveIdempotencyKey(options, 2)).toEqual({ idempotencyKey: 'order-1-2', timeout: 5000 });
+    expect(options.idempotencyKey).toBe('order-1');
+  });
+
+  it('returns options without a key unchanged', () => {
+    const options = { timeout: 5000 };
+    expect(deriveIdempotencyKey(options, 'poll-1')).toBe(options);
+    expect(deriveIdempotencyKey(undefined, 1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import type { RequestOptions, RetryPolicy } from './types';
+
+/**
+ * Retry policy with every option filled in
+ */
+export interface ResolvedRetryPolicy extends Required<Omit<RetryPolicy, 'shouldRetry'>> {
+  shouldRetry?: RetryPolicy['shouldRetry'];
+}
+
+const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const DEFAULT_IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Fill in defaults for a user-supplied retry policy
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}, maxRetries = 3): ResolvedRetryPolicy {
+  return {
+    maxRetries: policy.maxRetries ?? maxRetries,
+    retryableStatuses: policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES,
+    baseDelayMs: policy.baseDelayMs ?? 1000,
+    maxDelayMs: policy.maxDelayMs ?? 10000,
+    jitter: policy.jitter ?? 'full',
+    respectRetryAfter: policy.respectRetryAfter ?? true,
+    maxRetryAfterMs: policy.maxRetryAfterMs ?? 60000,
+    idempotentMethods: (policy.idempotentMethods ?? DEFAULT_IDEMPOTENT_METHODS).map(m => m.toUpperCase()),
+    nonIdempotentRetryStatuses: policy.nonIdempotentRetryStatuses ?? [429],
+    shouldRetry: policy.shouldRetry,
+  };
+}
+
+/**
+ * Whether a failed attempt may be retried under the built-in rules.
+ * `status` is 0 for network errors, where the request may already have reached the server.
+ * Requests carrying an `Idempotency-Key` are deduplicated by the gateway and treated as idempotent.
+ */
+export function isRetryable(
+  policy: ResolvedRetryPolicy,
+  method: string,
+  status: number,
+  hasIdempotencyKey = false
+): boolean {
+  const idempotent = hasIdempotencyKey || policy.idempotentMethods.includes(method.toUpperCase());
+
+  if (status === 0) {
+    return idempotent;
+  }
+
+  if (!policy.retryableStatuses.includes(status)) {
+    return false;
+  }
+
+  return idempotent || policy.nonIdempotentRetryStatuses.includes(status);
+}
+
+/**
+ * Whether a method mutates server state and should carry an idempotency key
+ */
+export function isMutatingMethod(policy: ResolvedRetryPolicy, method: string): boolean {
+  return !policy.idempotentMethods.includes(method.toUpperCase());
+}
+
+/**
+ * Generate a random idempotency key (UUID v4)
+ */
+export function generateIdempotencyKey(): string {
+  const cryptoApi = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (cryptoApi?.randomUUID) {
+    return cryptoApi.randomUUID();
+  }
+
+  // Fallback for runtimes without crypto.randomUUID
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Options for one of several requests sent on behalf of a single call. An
+ * explicit idempotency key gets `suffix` appended, so the gateway does not
+ * deduplicate requests with different bodies against each other.
+ */
+export function deriveIdempotencyKey<T extends RequestOptions>(options: T | undefined, suffix: string | number): T | undefined {
+  if (options?.idempotencyKey === undefined) {
+    return options;
+  }
+  return { ...options, idempotencyKey: `${options.idempotencyKey}-${suffix}` };
+}
+
+/**
+ * Exponential backoff delay for the given retry attempt (1-based), with jitter
+ */
+export function backoffDelay(policy: ResolvedRetryPolicy, attempt: number): number {
+  const exponential = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(Math.random() * exponential);
+    case 'equal':
+      return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    default:
+      return exponential;
+  }
+}
+
+/**
+ * Read the server-requested wait from `retry-after-ms`, `Retry-After` or `x-ratelimit-reset`.
+ * Returns the delay in milliseconds, or null when none of the headers is usable.
+ */
+export function parseRetryAfter(headers: Headers | undefined, now = Date.now()): number | null {
+  if (!headers) return null;
+
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs !== null && Number.isFinite(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter !== null) {
+    // Either delay-seconds or an HTTP-date
+    if (/^\d+(\.\d+)?$/.test(retryAfter.trim())) {
+      return Math.max(0, Number(retryAfter) * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = headers.get('x-ratelimit-reset');
+  if (reset !== null) {
+    return parseResetValue(reset.trim(), now);
+  }
+
+  return null;
+}
+
+/**
+ * Parse an `x-ratelimit-reset` value: epoch seconds, seconds from now,
+ * or a duration string such as "1m30s", "2.5s" or "250ms"
+ */
+function parseResetValue(value: string, now: number): number | null {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const seconds = Number(value);
+    // Values this large are absolute epoch timestamps rather than relative delays
+    if (seconds > 1e9) {
+      return Math.max(0, seconds * 1000 - now);
+    }
+    return seconds * 1000;
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let matched = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value)) !== null) {
+    total += Number(match[1]) * units[match[2]];
+    matched += match[0];
+  }
+
+  return matched.length > 0 && matched.length === value.length ? total : null;
+}
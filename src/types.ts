@@ -3,6 +3,8 @@
 // Comprehensive type definitions for the MQL AI Proxy Gateway
 // ============================================================================
 
+import type { MQLAPIError } from './errors';
+
 // ============================================================================
 // Common Types
 // ============================================================================
@@ -14,12 +16,202 @@ export interface MQLClientOptions {
   apiKey?: string;
   /** Supabase JWT token for authenticated user operations */
   token?: string;
+  /**
+   * Supplies the Supabase JWT before each request, taking precedence over `token`.
+   * Called again with `forceRefresh: true` when a request is rejected with 401.
+   */
+  tokenProvider?: TokenProvider;
   /** Request timeout in milliseconds (default: 30000) */
   timeout?: number;
+  /** Maximum gap between streamed chunks in milliseconds before the stream is aborted (default: `timeout`) */
+  streamIdleTimeout?: number;
   /** Number of retries for failed requests (default: 3) */
   maxRetries?: number;
   /** Custom fetch implementation for environments without native fetch */
   fetch?: typeof fetch;
+  /** Headers sent with every request, e.g. tenant or tracing identifiers */
+  defaultHeaders?: Record<string, string>;
+  /**
+   * Credential each API authenticates with. By default inference APIs (chat, embeddings,
+   * audio, images, video, music, models, pricing) use `apiKey` and management APIs use `token`;
+   * if the preferred credential is not configured the other one is used.
+   */
+  credentials?: Partial<Record<MQLAPIName, MQLCredential>>;
+  /** Retry behaviour for failed requests (statuses, backoff, Retry-After handling) */
+  retryPolicy?: RetryPolicy;
+  /** Called before each retry, e.g. for logging or metrics */
+  onRetry?: (context: RetryContext) => void;
+  /** Middleware run around every HTTP request, in order (see `MQL.use`) */
+  middleware?: MQLMiddleware[];
+  /**
+   * Send an auto-generated `Idempotency-Key` with POST/PATCH requests so they can be
+   * retried safely after network errors and 5xx responses (default: true)
+   */
+  generateIdempotencyKeys?: boolean;
+  /**
+   * Attach a calculated `costUsd` to chat, embedding and transcription responses,
+   * using cached pricing tables (default: false)
+   */
+  costTracking?: boolean | CostTrackingOptions;
+  /**
+   * Serve repeated embeddings and deterministic (`temperature: 0`) chat requests
+   * from a client-side cache (default: false)
+   */
+  cache?: boolean | ResponseCacheOptions;
+}
+
+/** Which configured credential authenticates a request: the proxy key or the user token */
+export type MQLCredential = 'apiKey' | 'token';
+
+/** API namespaces of the `MQL` client */
+export type MQLAPIName =
+  | 'chat'
+  | 'proxyKeys'
+  | 'filters'
+  | 'organizations'
+  | 'analytics'
+  | 'models'
+  | 'webhooks'
+  | 'pricing'
+  | 'experiments'
+  | 'feedback'
+  | 'promptHub'
+  | 'subscription'
+  | 'audio'
+  | 'images'
+  | 'video'
+  | 'embeddings'
+  | 'music';
+
+/**
+ * Context passed to a `tokenProvider`
+ */
+export interface TokenProviderContext {
+  /** True when the previous token was rejected with 401 and a new one must be issued */
+  forceRefresh: boolean;
+}
+
+/** Returns a bearer token, e.g. by refreshing a Supabase session */
+export type TokenProvider = (context: TokenProviderContext) => string | Promise<string>;
+
+/** Transport used for a request */
+export type MQLRequestKind = 'json' | 'binary' | 'multipart' | 'stream';
+
+/**
+ * Outgoing HTTP request as seen by middleware
+ */
+export interface MQLRequest {
+  /** Full request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Request headers (including Authorization) */
+  headers: Record<string, string>;
+  /** Request body: JSON string, FormData, or undefined */
+  body?: BodyInit;
+  /** Abort signal for the request */
+  signal?: AbortSignal;
+  /** Transport used for the request */
+  kind: MQLRequestKind;
+  /** Attempt number, starting at 1 and incremented on retries */
+  attempt: number;
+}
+
+/**
+ * Middleware wrapping each HTTP attempt. Call `next` (optionally with a modified
+ * request) to continue the chain; the returned Response can be inspected or replaced.
+ *
+ * @example
+ * ```typescript
+ * const timing: MQLMiddleware = async (request, next) => {
+ *   const start = Date.now();
+ *   const response = await next({ ...request, headers: { ...request.headers, 'traceparent': traceId } });
+ *   console.log(request.method, request.url, response.status, Date.now() - start);
+ *   return response;
+ * };
+ * ```
+ */
+export type MQLMiddleware = (
+  request: MQLRequest,
+  next: (request: MQLRequest) => Promise<Response>
+) => Promise<Response>;
+
+export interface RetryPolicy {
+  /** Maximum number of retries (default: the `maxRetries` client option) */
+  maxRetries?: number;
+  /** HTTP status codes that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[];
+  /** Base delay for exponential backoff in milliseconds (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Randomization applied to backoff delays (default: 'full') */
+  jitter?: 'none' | 'full' | 'equal';
+  /** Wait as long as `Retry-After` / `x-ratelimit-reset` ask for (default: true) */
+  respectRetryAfter?: boolean;
+  /** Longest server-requested wait to honor before giving up, in milliseconds (default: 60000) */
+  maxRetryAfterMs?: number;
+  /** HTTP methods that are safe to retry on any retryable failure (default: GET, HEAD, OPTIONS, PUT, DELETE) */
+  idempotentMethods?: string[];
+  /**
+   * Statuses on which non-idempotent requests (POST, PATCH) without an `Idempotency-Key`
+   * are still retried because the gateway rejected them before processing (default: 429)
+   */
+  nonIdempotentRetryStatuses?: number[];
+  /** Final say on whether to retry; return undefined to fall back to the built-in rules */
+  shouldRetry?: (context: RetryContext) => boolean | undefined;
+}
+
+export interface RetryContext {
+  /** HTTP method of the request */
+  method: string;
+  /** Full request URL */
+  url: string;
+  /** Retry attempt about to be made (1-based) */
+  attempt: number;
+  /** Delay before the retry in milliseconds */
+  delayMs: number;
+  /** HTTP status of the failed attempt (0 for network errors) */
+  status: number;
+  /** Error raised by the failed attempt */
+  error: Error;
+  /** Response headers of the failed attempt, if a response was received */
+  headers?: Headers;
+  /** `Idempotency-Key` sent with the request, if any */
+  idempotencyKey?: string;
+}
+
+/**
+ * Per-request options accepted as the last argument of every API method
+ */
+export interface RequestOptions {
+  /** AbortSignal to cancel the request, including while its response body is read (unless taken with `asResponse()`) */
+  signal?: AbortSignal;
+  /**
+   * Request timeout in milliseconds, overriding the client default. It covers
+   * reading the response body (unless taken with `asResponse()`), so raise it
+   * for large downloads.
+   */
+  timeout?: number;
+  /** Extra headers sent with this request */
+  headers?: Record<string, string>;
+  /** Maximum retries for this request, overriding the client retry policy */
+  maxRetries?: number;
+  /** Credential to authenticate this request with, overriding the API's default */
+  credential?: MQLCredential;
+  /**
+   * Idempotency key sent as the `Idempotency-Key` header. POST/PATCH requests get a
+   * generated key unless `generateIdempotencyKeys` is disabled on the client.
+   * Helpers sending several requests (polling, uploads, tool loops, races) append
+   * a suffix per request, e.g. `key-poll-1`.
+   */
+  idempotencyKey?: string;
+  /**
+   * Response cache control for chat and embeddings requests when the client has a
+   * cache: `false` bypasses it, `true` or an object caches this request even if it
+   * would not be cached by default (e.g. a chat request with `temperature > 0`)
+   */
+  cache?: boolean | RequestCacheOptions;
 }
 
 export interface MQLError {
@@ -157,13 +349,53 @@ export interface RegenerateProxyKeyResponse {
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
-  content: string | null;
+  /** Plain text, or an array of text / image / audio / file parts (user messages) */
+  content: string | ChatContentPart[] | null;
   name?: string;
   functionCall?: {
     name: string;
     arguments: string;
   };
   toolCalls?: ToolCall[];
+  /** ID of the tool call this message answers (`role: 'tool'` only) */
+  toolCallId?: string;
+}
+
+export type ChatContentPart = TextContentPart | ImageContentPart | AudioContentPart | FileContentPart;
+
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image_url';
+  imageUrl: {
+    /** Public URL or `data:` URL with base64 image data */
+    url: string;
+    /** Resolution the model looks at the image in (default: 'auto') */
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+export interface AudioContentPart {
+  type: 'input_audio';
+  inputAudio: {
+    /** Base64-encoded audio */
+    data: string;
+    format: 'wav' | 'mp3';
+  };
+}
+
+export interface FileContentPart {
+  type: 'file';
+  file: {
+    /** ID of a previously uploaded file */
+    fileId?: string;
+    filename?: string;
+    /** `data:` URL with base64 file contents */
+    fileData?: string;
+  };
 }
 
 export interface ToolCall {
@@ -182,6 +414,11 @@ export interface ChatCompletionRequest {
   messages: ChatMessage[];
   /** Whether to stream the response */
   stream?: boolean;
+  /**
+   * Streaming only. `includeUsage` asks the provider to send token usage in a
+   * final chunk, so streamed calls can be costed.
+   */
+  streamOptions?: { includeUsage?: boolean };
   /** Maximum tokens to generate */
   maxTokens?: number;
   /** Sampling temperature (0-2) */
@@ -206,6 +443,31 @@ export interface ChatCompletionRequest {
   tools?: ToolDefinition[];
   /** Tool choice behavior */
   toolChoice?: 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
+  /** Allow the model to request several tool calls in one response */
+  parallelToolCalls?: boolean;
+  /** Output format: plain text, any JSON object, or JSON matching a schema */
+  responseFormat?: ResponseFormat;
+  /** Seed for best-effort deterministic sampling */
+  seed?: number;
+  /** Return log probabilities of the output tokens */
+  logprobs?: boolean;
+  /** Number of most likely alternatives to return per token (0-20, requires `logprobs`) */
+  topLogprobs?: number;
+}
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; jsonSchema: JsonSchemaFormat };
+
+export interface JsonSchemaFormat {
+  /** Schema name (a-z, A-Z, 0-9, underscores and dashes) */
+  name: string;
+  description?: string;
+  /** JSON schema the output must match */
+  schema: Record<string, unknown>;
+  /** Ask the provider to enforce the schema exactly */
+  strict?: boolean;
 }
 
 export interface FunctionDefinition {
@@ -226,12 +488,30 @@ export interface ChatCompletionResponse {
   model: string;
   choices: ChatCompletionChoice[];
   usage: UsageInfo;
+  /** Gateway routing metadata (provider used, fallback flag, request ID, ...) */
+  mql?: MQLResponseMetadata;
+  /** Cost in USD, attached when `costTracking` is enabled (null if the model's pricing is unknown) */
+  costUsd?: number | null;
+  /** Whether the response was served from the client cache (set when the request was cacheable) */
+  cacheHit?: boolean;
 }
 
 export interface ChatCompletionChoice {
   index: number;
   message: ChatMessage;
   finishReason: 'stop' | 'length' | 'function_call' | 'tool_calls' | 'content_filter' | null;
+  /** Token log probabilities, when requested with `logprobs` */
+  logprobs?: ChoiceLogprobs | null;
+}
+
+export interface TokenLogprob {
+  token: string;
+  logprob: number;
+  bytes: number[] | null;
+}
+
+export interface ChoiceLogprobs {
+  content: Array<TokenLogprob & { topLogprobs: TokenLogprob[] }> | null;
 }
 
 export interface UsageInfo {
@@ -247,14 +527,48 @@ export interface ChatCompletionChunk {
   created: number;
   model: string;
   choices: ChatCompletionChunkChoice[];
+  /** Token usage, present on the final chunk when the provider reports it */
+  usage?: UsageInfo;
+  /** Gateway routing metadata, attached from the chunk that carries the finish reason onwards */
+  mql?: MQLResponseMetadata;
 }
 
 export interface ChatCompletionChunkChoice {
   index: number;
-  delta: Partial<ChatMessage>;
+  delta: ChatCompletionDelta;
   finishReason: 'stop' | 'length' | 'function_call' | 'tool_calls' | 'content_filter' | null;
 }
 
+/**
+ * Incremental message fragment carried by a stream chunk
+ */
+export interface ChatCompletionDelta {
+  role?: ChatMessage['role'];
+  content?: string | null;
+  /** Fragment of a legacy function call; `arguments` arrives in pieces */
+  functionCall?: {
+    name?: string;
+    arguments?: string;
+  };
+  /** Fragments of tool calls, matched up across chunks by `index` */
+  toolCalls?: ToolCallDelta[];
+}
+
+/**
+ * Fragment of a streamed tool call
+ */
+export interface ToolCallDelta {
+  /** Position of the tool call in the final message */
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    /** Piece of the JSON arguments string */
+    arguments?: string;
+  };
+}
+
 // ============================================================================
 // Filter Types
 // ============================================================================
@@ -558,15 +872,18 @@ export interface ModelListResponse {
 // Streaming Types
 // ============================================================================
 
-export interface StreamOptions {
+export interface StreamOptions extends RequestOptions {
   /** Callback for each chunk received */
   onChunk?: (chunk: ChatCompletionChunk) => void;
   /** Callback when the stream completes */
   onComplete?: (fullResponse: string) => void;
   /** Callback for errors during streaming */
   onError?: (error: MQLError) => void;
-  /** AbortSignal for canceling the stream */
-  signal?: AbortSignal;
+  /**
+   * Called for a chunk that is not valid JSON, which is then skipped.
+   * Without it the stream fails with an `MQLAPIError` (code `invalid_stream_chunk`).
+   */
+  onParseError?: (error: MQLAPIError, data: string) => void;
 }
 
 // ============================================================================
@@ -590,6 +907,31 @@ export interface ProxyResponseHeaders {
   'x-mql-is-fallback'?: string;
   /** Request ID for tracking */
   'x-mql-request-id'?: string;
+  /** Gateway-measured latency in milliseconds */
+  'x-mql-latency-ms'?: string;
+  /** Cost of the request in USD */
+  'x-mql-cost-usd'?: string;
+}
+
+/**
+ * Routing metadata reported by the gateway for a proxied request.
+ * Combines the `x-mql-*` response headers with the `metadata` block of MQL-format responses.
+ */
+export interface MQLResponseMetadata {
+  /** Provider that served the request (e.g. "openai") */
+  provider: string | null;
+  /** Gateway identifier of the provider entry in the proxy key's fallback chain */
+  providerId: string | null;
+  /** Model that actually served the request */
+  model: string | null;
+  /** Whether a fallback provider was used */
+  isFallback: boolean;
+  /** Request ID, matches `UsageLog.requestId` and `SubmitFeedbackRequest.request_id` */
+  requestId: string | null;
+  /** Latency in milliseconds (gateway-reported, or measured client-side when unavailable) */
+  latencyMs: number | null;
+  /** Cost of the request in USD, when reported by the gateway */
+  costUsd: number | null;
 }
 
 // ============================================================================
@@ -612,6 +954,70 @@ export interface ProviderPricingResponse {
   models: ModelPricing[];
 }
 
+/** Pricing tables keyed by provider, e.g. from `CostCalculator.snapshot()` */
+export type PricingSnapshot = Record<string, ModelPricing[]>;
+
+export interface CostTrackingOptions {
+  /** How long fetched pricing tables are reused, in ms (default: 3600000) */
+  ttlMs?: number;
+  /** Tables used when pricing cannot be fetched, e.g. offline or in tests */
+  snapshot?: PricingSnapshot;
+  /** Provider to price against when neither the gateway nor the model name identifies one */
+  defaultProvider?: string;
+}
+
+// ============================================================================
+// Response Cache Types
+// ============================================================================
+
+/**
+ * Storage backend of the response cache. Values are JSON-serialisable, so any
+ * key-value store (Redis, KV, SQLite, ...) can back the cache.
+ *
+ * @example
+ * ```typescript
+ * const redisStore: CacheStore = {
+ *   get: async (key) => JSON.parse((await redis.get(key)) ?? 'null') ?? undefined,
+ *   set: async (key, value, ttlMs) => {
+ *     await redis.set(key, JSON.stringify(value), ...(ttlMs ? ['PX', ttlMs] : []));
+ *   },
+ *   delete: async (key) => { await redis.del(key); },
+ * };
+ * ```
+ */
+export interface CacheStore {
+  /** Stored value, or undefined when missing or expired */
+  get(key: string): unknown | Promise<unknown>;
+  /** Store a value, expiring after `ttlMs` if given */
+  set(key: string, value: unknown, ttlMs?: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /** Remove every entry */
+  clear?(): void | Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  /** Where responses are kept (default: in-memory LRU of 1000 entries) */
+  store?: CacheStore;
+  /** How long responses are reused, in ms (default: 3600000) */
+  ttlMs?: number;
+  /** Cache deterministic chat completions (default: true) */
+  chat?: boolean;
+  /** Cache embeddings (default: true) */
+  embeddings?: boolean;
+  /**
+   * Prefix for cache keys, e.g. to keep applications apart in a shared store.
+   * Entries are always kept apart per base URL and credential.
+   */
+  namespace?: string;
+}
+
+export interface RequestCacheOptions {
+  /** Time to live for this response, in ms */
+  ttlMs?: number;
+  /** Skip the lookup and replace the stored response */
+  refresh?: boolean;
+}
+
 // ============================================================================
 // Subscription & Plan Types (B2B Model)
 // ============================================================================